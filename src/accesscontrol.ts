@@ -130,6 +130,23 @@ export class AutoFunctionAccessController implements AccessController {
   }
 }
 
+/**
+ * Gathers the permissions held by any `AutoFunctionAccessController`s in
+ * `ctrl`, including those nested in `ChainedAccessController`s.
+ */
+export function collectPermissions(ctrl?: AccessController): Set<string> {
+  const perms = new Set<string>()
+  const traverse = (ctrl?: AccessController) => {
+    if (ctrl instanceof AutoFunctionAccessController) {
+      ctrl.perms.forEach((perm) => perms.add(perm))
+    } else if (ctrl instanceof ChainedAccessController) {
+      ctrl.access_chain.forEach(traverse)
+    }
+  }
+  traverse(ctrl)
+  return perms
+}
+
 export function RequirePermissions(perms: string[]) {
   return function (
     // eslint-disable-next-line
@@ -31,7 +31,7 @@ function getFromAddrMapFlat<T>(
   }
 
   let data: T | undefined = undefined
-  if (map[part]) {
+  if (Object.prototype.hasOwnProperty.call(map, part)) {
     data = getFromAddrMapFlat(map[part], addr, wc_values)
   }
   if (!data && map[WildcardEntryKey]) {
@@ -49,14 +49,46 @@ function getFromAddrMapFlat<T>(
   return data
 }
 
+function matchAddrMapFlat<T>(
+  map: AddressMapFlat<T>,
+  addr: MultistringAddress,
+  i: number,
+  out: T[]
+): void {
+  if (i >= addr.length) {
+    if (!isUndef(map[DefaultEntryKey])) {
+      out.push(map[DefaultEntryKey] as T)
+    }
+    return
+  }
+  if (Object.prototype.hasOwnProperty.call(map, addr[i])) {
+    matchAddrMapFlat(map[addr[i]], addr, i + 1, out)
+  }
+  if (map[WildcardEntryKey]) {
+    matchAddrMapFlat(
+      map[WildcardEntryKey] as AddressMapFlat<T>,
+      addr,
+      i + 1,
+      out
+    )
+  }
+}
+
 class AddressMap<T> {
   table: AddressMapFlat<T> = {}
   put(addr: WildcardMultistringAddress, value: T | undefined): void {
     let last_table = this.table
     addr.forEach((part) => {
       const key = part || WildcardEntryKey
-      if (isUndef(last_table[key])) {
-        last_table[key] = {}
+      // Defined as own properties so that keys like `__proto__` can't change
+      // the prototype
+      if (!Object.prototype.hasOwnProperty.call(last_table, key)) {
+        Object.defineProperty(last_table, key, {
+          value: {},
+          writable: true,
+          enumerable: true,
+          configurable: true
+        })
       }
       last_table = last_table[key] as AddressMapFlat<T>
     })
@@ -73,10 +105,48 @@ class AddressMap<T> {
     return isUndef(value) ? this.table[DefaultEntryKey] : value
   }
 
+  /**
+   * Finds the values of every address that matches `addr`, rather than only
+   * the most specific one like `get`. Values at exact parts come before those
+   * at wildcards.
+   */
+  match(addr: MultistringAddress): T[] {
+    const out: T[] = []
+    matchAddrMapFlat(this.table, addr, 0, out)
+    return out
+  }
+
+  /**
+   * Lists every address with a value. Wildcard parts are `null`.
+   */
+  entries(): [WildcardMultistringAddress, T][] {
+    const entries: [WildcardMultistringAddress, T][] = []
+    const addr: WildcardMultistringAddress = []
+    function traverse(map: AddressMapFlat<T>) {
+      if (!isUndef(map[DefaultEntryKey])) {
+        entries.push([[...addr], map[DefaultEntryKey] as T])
+      }
+      Object.keys(map).forEach((key) => {
+        addr.push(key)
+        traverse(map[key])
+        addr.pop()
+      })
+      if (map[WildcardEntryKey]) {
+        addr.push(null)
+        traverse(map[WildcardEntryKey] as AddressMapFlat<T>)
+        addr.pop()
+      }
+    }
+    traverse(this.table)
+    return entries
+  }
+
   clear(): void {
     for (const k of Object.keys(this.table)) {
       delete this.table[k]
     }
+    delete this.table[WildcardEntryKey]
+    delete this.table[DefaultEntryKey]
   }
 
   toString(): string {
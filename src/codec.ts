@@ -0,0 +1,355 @@
+/**
+ * Codecs convert data to and from the format sent over a transport. A `Codec`
+ * is used by `RpcChannel` to convert the values in each message, and a
+ * `MessageCodec` converts whole messages into text or bytes for transports
+ * that do not support structured cloning, such as byte streams.
+ * @author Nathan Pennie <kb1rd@kb1rd.net>
+ */
+/** */
+
+import { RpcMessage } from './registry'
+import { serializeError } from './errors'
+import {
+  rpcSerialize,
+  isTransferable,
+  toRpcSerialized,
+  RpcProxied,
+  ProxySerializationFunction,
+  SerializeOpts,
+  SerializableData,
+  SerializedData
+} from './serializer'
+
+/**
+ * Converts the values in a message (arguments, return values, and errors) to
+ * and from the format that is sent. Set with the `codec` option of
+ * `RpcChannel`.
+ */
+export interface Codec {
+  /**
+   * Sent during the handshake so that ends using different codecs are
+   * detected.
+   */
+  readonly name?: string
+  /**
+   * Converts a value to be sent.
+   * @param data The value to convert
+   * @param xfer Destination array for transferrables
+   * @param proxy Converts values marked with `Proxied`
+   * @param opts Classes to send specially and how to send errors
+   * @throws If the value cannot be represented by this codec
+   */
+  encode(
+    data: SerializableData,
+    xfer: Transferable[],
+    proxy?: ProxySerializationFunction,
+    opts?: SerializeOpts
+  ): SerializedData
+  /**
+   * Restores a received value.
+   * @throws If `data` is not valid for this codec
+   */
+  decode(data: SerializedData): SerializedData
+}
+
+/**
+ * The default codec. Values are prepared by `rpcSerialize` and then copied by
+ * the transport's structured clone algorithm, as is done by `postMessage`.
+ */
+export class StructuredCloneCodec implements Codec {
+  readonly name = 'structured_clone'
+  encode(
+    data: SerializableData,
+    xfer: Transferable[],
+    proxy?: ProxySerializationFunction,
+    opts?: SerializeOpts
+  ): SerializedData {
+    return rpcSerialize(data, xfer, proxy, opts)
+  }
+  decode(data: SerializedData): SerializedData {
+    return data
+  }
+}
+
+type TaggedValue = { $t: string; [key: string]: SerializedData }
+type PlainObject = { [key: string]: SerializedData }
+
+const base64_chars =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+function toBase64(bytes: Uint8Array): string {
+  let out = ''
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n =
+      (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0)
+    out += base64_chars[(n >> 18) & 63] + base64_chars[(n >> 12) & 63]
+    out += i + 1 < bytes.length ? base64_chars[(n >> 6) & 63] : '='
+    out += i + 2 < bytes.length ? base64_chars[n & 63] : '='
+  }
+  return out
+}
+
+function fromBase64(str: string): Uint8Array {
+  if (str.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(str)) {
+    throw new TypeError('Invalid base64 data')
+  }
+  const padding = str.endsWith('==') ? 2 : str.endsWith('=') ? 1 : 0
+  const out = new Uint8Array((str.length / 4) * 3 - padding)
+  for (let i = 0, o = 0; i < str.length; i += 4) {
+    const n =
+      (base64_chars.indexOf(str[i]) << 18) |
+      (base64_chars.indexOf(str[i + 1]) << 12) |
+      ((base64_chars.indexOf(str[i + 2]) & 63) << 6) |
+      (base64_chars.indexOf(str[i + 3]) & 63)
+    out[o++] = n >> 16
+    if (o < out.length) {
+      out[o++] = (n >> 8) & 255
+    }
+    if (o < out.length) {
+      out[o++] = n & 255
+    }
+  }
+  return out
+}
+
+/**
+ * Binary types that `JsonCodec` can send. The same list as `transferrables` in
+ * the serializer, without the types that can't be copied.
+ */
+const binary_types: {
+  [name: string]: { new (buffer: ArrayBuffer): unknown }
+} = {}
+;[
+  typeof DataView !== 'undefined' && DataView,
+
+  typeof Int8Array !== 'undefined' && Int8Array,
+  typeof Int16Array !== 'undefined' && Int16Array,
+  typeof Int32Array !== 'undefined' && Int32Array,
+  typeof BigInt64Array !== 'undefined' && BigInt64Array,
+
+  typeof Uint8Array !== 'undefined' && Uint8Array,
+  typeof Uint8ClampedArray !== 'undefined' && Uint8ClampedArray,
+  typeof Uint16Array !== 'undefined' && Uint16Array,
+  typeof Uint32Array !== 'undefined' && Uint32Array,
+  typeof BigUint64Array !== 'undefined' && BigUint64Array,
+
+  typeof Float32Array !== 'undefined' && Float32Array,
+  typeof Float64Array !== 'undefined' && Float64Array
+].forEach((type) => {
+  if (type) {
+    binary_types[type.name] = type
+  }
+})
+
+function isPlainObject(data: unknown): boolean {
+  const proto = Object.getPrototypeOf(data)
+  return proto === Object.prototype || proto === null
+}
+
+/**
+ * Converts values to data that survives `JSON.stringify` and `JSON.parse`.
+ * Values that JSON cannot represent are replaced with objects with a `$t`
+ * (type) key:
+ * * `undefined`, `NaN`, `Infinity`, `-Infinity`, and `-0`
+ * * `BigInt`s
+ * * `Date`s, `RegExp`s, `Map`s, and `Set`s
+ * * `ArrayBuffer`s, typed arrays, and `DataView`s, which are sent as base64
+ * * `Error`s, which are restored as objects that are `instanceof Error`
+ *
+ * Objects that have a `$t` key of their own are escaped, so any data can be
+ * sent. Other class instances are sent as plain objects, like with
+ * `rpcSerialize`.
+ */
+export class JsonCodec implements Codec {
+  readonly name = 'json'
+  encode(
+    data: SerializableData,
+    xfer: Transferable[],
+    proxy?: ProxySerializationFunction,
+    opts: SerializeOpts = {}
+  ): SerializedData {
+    const encode = (d: SerializableData) => this.encode(d, xfer, proxy, opts)
+    const { types, errors, error_stack } = opts
+    if (types) {
+      const token = types.encode(data, encode)
+      if (token !== undefined) {
+        return token
+      }
+    }
+    // eslint-disable-next-line
+    const obj = data as any
+    if (obj && (obj[RpcProxied] || obj[toRpcSerialized])) {
+      return encode(rpcSerialize(data, xfer, proxy))
+    }
+    switch (typeof data) {
+      case 'undefined':
+        return { $t: 'undefined' }
+      case 'number':
+        if (!Number.isFinite(data) || Object.is(data, -0)) {
+          return { $t: 'number', v: Object.is(data, -0) ? '-0' : String(data) }
+        }
+        return data
+      case 'bigint':
+        return { $t: 'bigint', v: data.toString() }
+      case 'boolean':
+      case 'string':
+        return data
+      case 'object':
+        break
+      default:
+        // Symbols and functions
+        return rpcSerialize(data, xfer, proxy)
+    }
+    if (data === null) {
+      return null
+    }
+    if (Array.isArray(data)) {
+      return data.map(encode)
+    }
+    if (data instanceof Date) {
+      return { $t: 'date', v: encode(data.getTime()) }
+    }
+    if (data instanceof RegExp) {
+      return { $t: 'regexp', v: data.source, f: data.flags }
+    }
+    if (data instanceof Map) {
+      return {
+        $t: 'map',
+        v: [...data.entries()].map(([k, v]) => [encode(k), encode(v)])
+      }
+    }
+    if (data instanceof Set) {
+      return { $t: 'set', v: [...data.values()].map(encode) }
+    }
+    if (data instanceof Error) {
+      const v = serializeError(data, encode, errors, error_stack)
+      // Escape errors with a `$t` property of their own
+      return { $t: 'error', v: '$t' in v ? { $t: 'object', v } : v }
+    }
+    if (data instanceof ArrayBuffer) {
+      return {
+        $t: 'bytes',
+        c: 'ArrayBuffer',
+        v: toBase64(new Uint8Array(data))
+      }
+    }
+    if (ArrayBuffer.isView(data) && binary_types[data.constructor.name]) {
+      const bytes = new Uint8Array(
+        data.buffer,
+        data.byteOffset,
+        data.byteLength
+      )
+      return { $t: 'bytes', c: data.constructor.name, v: toBase64(bytes) }
+    }
+    if (isTransferable(data)) {
+      throw new TypeError(`Cannot encode ${data.constructor.name} as JSON`)
+    }
+    const robj: PlainObject = {}
+    Object.keys(data).forEach((k) => {
+      robj[k] = encode((data as PlainObject)[k])
+    })
+    return '$t' in robj ? { $t: 'object', v: robj } : robj
+  }
+
+  decode(data: SerializedData): SerializedData {
+    if (Array.isArray(data)) {
+      return data.map((d) => this.decode(d))
+    }
+    if (!data || typeof data !== 'object' || !isPlainObject(data)) {
+      return data
+    }
+    const decodeObject = (obj: PlainObject): PlainObject => {
+      const robj: PlainObject = {}
+      Object.keys(obj).forEach((k) => {
+        robj[k] = this.decode(obj[k])
+      })
+      return robj
+    }
+    if (!('$t' in data)) {
+      return decodeObject(data as PlainObject)
+    }
+    const { $t, v, c, f } = data as TaggedValue
+    switch ($t) {
+      case 'undefined':
+        return undefined
+      case 'number':
+        return Number(v)
+      case 'bigint':
+        return BigInt(v)
+      case 'date':
+        return (new Date(this.decode(v) as number) as unknown) as SerializedData
+      case 'regexp':
+        return (new RegExp(String(v), String(f)) as unknown) as SerializedData
+      case 'map':
+        return (new Map(
+          (v as SerializedData[][]).map(([k, v]) => [
+            this.decode(k),
+            this.decode(v)
+          ])
+        ) as unknown) as SerializedData
+      case 'set':
+        return (new Set(
+          (v as SerializedData[]).map((d) => this.decode(d))
+        ) as unknown) as SerializedData
+      case 'error':
+        return Object.assign(Object.create(Error.prototype), this.decode(v))
+      case 'bytes': {
+        const bytes = fromBase64(String(v))
+        if (c === 'ArrayBuffer') {
+          return bytes.buffer
+        }
+        const type = binary_types[String(c)]
+        if (!type) {
+          throw new TypeError(`Unknown binary type ${c}`)
+        }
+        return new type(bytes.buffer) as SerializedData
+      }
+      case 'object':
+        // An object that has a `$t` key of its own
+        return decodeObject(v as PlainObject)
+      default:
+        throw new TypeError(`Unknown type tag ${$t}`)
+    }
+  }
+}
+
+/**
+ * Data produced by a `MessageCodec`.
+ */
+export type EncodedMessage = string | Uint8Array
+
+/**
+ * Converts `RpcMessage`s to and from text or bytes.
+ */
+export interface MessageCodec {
+  /**
+   * The `Codec` that channels using this should use for values. For example,
+   * this is a `JsonCodec` for the `JsonMessageCodec`.
+   */
+  readonly codec?: Codec
+  /**
+   * @throws If the message cannot be represented by this codec
+   */
+  encode(msg: RpcMessage): EncodedMessage
+  /**
+   * @throws If `data` is not a valid encoded message
+   */
+  decode(data: EncodedMessage): RpcMessage
+}
+
+/**
+ * Encodes messages as JSON text. Channels should use a `JsonCodec` so that
+ * values JSON cannot represent are tagged (`createChannel` does this).
+ */
+export class JsonMessageCodec implements MessageCodec {
+  readonly codec = new JsonCodec()
+
+  encode(msg: RpcMessage): EncodedMessage {
+    return JSON.stringify(msg)
+  }
+  decode(data: EncodedMessage): RpcMessage {
+    const text =
+      typeof data === 'string' ? data : new TextDecoder().decode(data)
+    return JSON.parse(text)
+  }
+}
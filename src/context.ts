@@ -0,0 +1,84 @@
+/**
+ * Information about incoming calls, passed to functions marked with
+ * `WithCallContext` or `UseCallContext`.
+ * @author Nathan Pennie <kb1rd@kb1rd.net>
+ */
+/** */
+
+import { MultistringAddress } from './addrmap'
+import { collectPermissions } from './accesscontrol'
+import type { RpcChannel, RpcMessage } from './registry'
+import { isDefined } from './utils'
+
+/**
+ * Everything known about an incoming call. This is passed as the only
+ * argument before the call arguments to functions that have
+ * `RpcWantsCallContext` set (see `WithCallContext` and `UseCallContext`).
+ */
+export class RpcCallContext {
+  /**
+   * The time (in ms since the epoch) after which the caller will no longer
+   * wait for a response. Note that this relies on both ends having reasonably
+   * synchronized clocks.
+   */
+  readonly deadline?: number
+
+  protected readonly controller?: AbortController =
+    typeof AbortController !== 'undefined' ? new AbortController() : undefined
+  protected _cancelled = false
+
+  /**
+   * @param channel The `RpcChannel` that received the call
+   * @param wildcards Any wildcards that were used in resolution of the function
+   * @param message The message that carried the call
+   */
+  constructor(
+    public readonly channel: RpcChannel,
+    public readonly wildcards: string[],
+    public readonly message: RpcMessage
+  ) {
+    this.deadline = message.deadline
+  }
+
+  get address(): MultistringAddress {
+    return this.message.to
+  }
+  /**
+   * Permissions granted to the caller by the channel's `access_controller`.
+   */
+  get perms(): Set<string> {
+    return collectPermissions(this.channel.access_controller)
+  }
+
+  /**
+   * Aborted when the caller cancels the call. This is `undefined` in
+   * environments without `AbortController`; check `cancelled` instead.
+   */
+  get signal(): AbortSignal | undefined {
+    return this.controller?.signal
+  }
+  get cancelled(): boolean {
+    return this._cancelled
+  }
+  cancel(): void {
+    if (this._cancelled) {
+      return
+    }
+    this._cancelled = true
+    this.controller?.abort()
+  }
+
+  /**
+   * The number of milliseconds until the deadline or `Infinity` if the caller
+   * did not set one.
+   */
+  get remaining(): number {
+    if (!isDefined(this.deadline)) {
+      return Infinity
+    }
+    return Math.max((this.deadline as number) - Date.now(), 0)
+  }
+  get expired(): boolean {
+    return this.remaining <= 0
+  }
+}
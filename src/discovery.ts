@@ -0,0 +1,120 @@
+/**
+ * Describes the functions registered with a channel so that the remote end can
+ * find out what it can call. See the `discovery` option of `RpcChannel`.
+ * @author Nathan Pennie <kb1rd@kb1rd.net>
+ */
+/** */
+
+import {
+  AddressMap,
+  MultistringAddress,
+  WildcardMultistringAddress
+} from './addrmap'
+import { RequiresPermissions } from './accesscontrol'
+import {
+  RpcFunction,
+  RpcReturnsGenerator,
+  RpcWantsCallContext
+} from './registry'
+import { Schema, RpcArgumentSchema, RpcResultSchema } from './schema'
+import { isDefined } from './utils'
+
+/**
+ * A registered function, as listed by `['_', 'describe']`.
+ */
+export interface RpcEndpointInfo {
+  /**
+   * Wildcard parts are `null`.
+   */
+  address: (string | null)[]
+  /**
+   * Whether the function should be called with `call` or `generate`.
+   */
+  returns: 'promise' | 'generator'
+  /**
+   * The schema that the arguments are validated against, if any.
+   */
+  schema?: Schema
+  /**
+   * How the function is given information about the call, which decides what
+   * `schema` covers:
+   * * `'context'`: Only the arguments (see `WithCallContext`)
+   * * Not set: The channel, wildcards, and then the arguments
+   */
+  call_info?: 'context'
+  /**
+   * The schema of the return value, if declared with `ResultSchema`.
+   */
+  return_schema?: Schema
+  /**
+   * The schema of each yielded value, if declared with `ResultSchema`.
+   */
+  yield_schema?: Schema
+  /**
+   * Permissions that the caller needs (see `RequirePermissions`).
+   */
+  permissions?: string[]
+}
+
+function isAsyncGeneratorFunction(func: RpcFunction): boolean {
+  return (
+    Boolean(func[RpcReturnsGenerator]) ||
+    Object.prototype.toString.call(func) === '[object AsyncGeneratorFunction]'
+  )
+}
+
+export function describeFunction(
+  address: WildcardMultistringAddress,
+  func: RpcFunction
+): RpcEndpointInfo {
+  const info: RpcEndpointInfo = {
+    address: address.map((part) => part || null),
+    returns: isAsyncGeneratorFunction(func) ? 'generator' : 'promise'
+  }
+  if (isDefined(func[RpcArgumentSchema])) {
+    info.schema = func[RpcArgumentSchema]
+  }
+  if (func[RpcWantsCallContext]) {
+    info.call_info = 'context'
+  }
+  const result = func[RpcResultSchema]
+  if (result && isDefined(result.returns)) {
+    info.return_schema = result.returns
+  }
+  if (result && isDefined(result.yields)) {
+    info.yield_schema = result.yields
+  }
+  const perms = func[RequiresPermissions]
+  if (perms) {
+    info.permissions = [...perms]
+  }
+  return info
+}
+
+/**
+ * Lists every function in `map`.
+ * @param filter If given, only functions for which this returns true are listed
+ */
+export function describeEndpoints(
+  map: AddressMap<RpcFunction>,
+  filter?: (address: WildcardMultistringAddress, func: RpcFunction) => boolean
+): RpcEndpointInfo[] {
+  return map
+    .entries()
+    .filter(([address, func]) => !filter || filter(address, func))
+    .map(([address, func]) => describeFunction(address, func))
+}
+
+/**
+ * Finds the endpoint that a call to `address` would reach, using the same
+ * rules as the channel: exact parts are preferred over wildcards.
+ * @param endpoints A list fetched with `RpcChannel.discover`
+ */
+export function findEndpoint(
+  endpoints: RpcEndpointInfo[],
+  address: MultistringAddress
+): RpcEndpointInfo | undefined {
+  const map = new AddressMap<RpcEndpointInfo>()
+  endpoints.forEach((e) => map.put(e.address, e))
+  return map.get([...address])
+}
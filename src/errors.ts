@@ -0,0 +1,311 @@
+/**
+ * Errors thrown by channels and the forwarding of errors between channels.
+ * Errors are sent as plain objects with their `name`, `message`, custom
+ * properties, and `cause`. The receiving end uses an `ErrorRegistry` to turn
+ * them back into instances of the right class.
+ * @author Nathan Pennie <kb1rd@kb1rd.net>
+ */
+/** */
+
+import Ajv from 'ajv'
+
+import { SerializableData, SerializedData } from './serializer'
+import { isDefined } from './utils'
+
+/**
+ * Stable codes for errors produced by the channel itself. These are sent as
+ * the `code` of the error, so callers can check them even if the error's
+ * class isn't known.
+ */
+export enum RpcErrorCode {
+  NOT_FOUND = 'not_found',
+  ACCESS_DENIED = 'access_denied',
+  INVALID_ARGUMENTS = 'invalid_arguments',
+  INTERNAL = 'internal',
+  TIMEOUT = 'timeout',
+  CANCELLED = 'cancelled',
+  CHANNEL_CLOSED = 'channel_closed',
+  INCOMPATIBLE = 'incompatible',
+  INVALID_MESSAGE = 'invalid_message'
+}
+
+/**
+ * Base class of errors produced by the channel itself. Each `RpcErrorCode`
+ * has its own subclass.
+ */
+export abstract class RpcError extends Error {
+  abstract readonly code: RpcErrorCode
+}
+
+/**
+ * Thrown when a return from a function call reaches a different RpcChannel
+ * than it was sent from. This **may** indicate a security issue due to re-used
+ * recieve callbacks.
+ */
+export class InvalidChannelError extends Error {
+  readonly name = 'InvalidChannelError'
+}
+
+/**
+ * Thrown when there is no function at the called address.
+ */
+export class RpcNotFoundError extends RpcError {
+  readonly name = 'RpcNotFoundError'
+  readonly code = RpcErrorCode.NOT_FOUND
+}
+
+/**
+ * Thrown when the access controller denies a call.
+ */
+export class AccessDeniedError extends RpcError {
+  readonly name = 'AccessDeniedError'
+  readonly code = RpcErrorCode.ACCESS_DENIED
+}
+
+/**
+ * Thrown when the arguments of a call are invalid:
+ * * The remote end could not decode them, or this end could not decode the
+ * response. The `cause` is the error thrown by the codec.
+ * * They don't match their schema. This is checked by `EnforceArgumentSchema`
+ * on the remote end, and before sending if a schema was set with
+ * `setArgumentSchema`. The `cause` is the `ValidationError`.
+ */
+export class RpcInvalidArgumentsError extends RpcError {
+  readonly name = 'RpcInvalidArgumentsError'
+  readonly code = RpcErrorCode.INVALID_ARGUMENTS
+}
+
+/**
+ * Thrown when the remote end fails to send a response, for example because
+ * the returned value cannot be serialized.
+ */
+export class RpcInternalError extends RpcError {
+  readonly name = 'RpcInternalError'
+  readonly code = RpcErrorCode.INTERNAL
+}
+
+/**
+ * Used for errors from the remote end that are not registered with an
+ * `ErrorRegistry`.
+ */
+export class ForwardedError extends Error {}
+
+/**
+ * Thrown when a call does not complete before its deadline.
+ */
+export class RpcTimeoutError extends RpcError {
+  readonly name = 'RpcTimeoutError'
+  readonly code = RpcErrorCode.TIMEOUT
+}
+
+/**
+ * Thrown when a call is cancelled through its `AbortSignal`.
+ */
+export class RpcCancelledError extends RpcError {
+  readonly name = 'RpcCancelledError'
+  readonly code = RpcErrorCode.CANCELLED
+}
+
+/**
+ * Thrown when the channel closes before a call completes.
+ */
+export class RpcChannelClosedError extends RpcError {
+  readonly name = 'RpcChannelClosedError'
+  readonly code = RpcErrorCode.CHANNEL_CLOSED
+}
+
+/**
+ * Thrown when the handshake finds that the two ends cannot talk to each other.
+ */
+export class RpcIncompatibleError extends RpcError {
+  readonly name = 'RpcIncompatibleError'
+  readonly code = RpcErrorCode.INCOMPATIBLE
+}
+
+/**
+ * Emitted with the `protocolerror` event when a received message is malformed.
+ * Malformed messages are dropped.
+ */
+export class RpcProtocolError extends RpcError {
+  readonly name = 'RpcProtocolError'
+  readonly code = RpcErrorCode.INVALID_MESSAGE
+  /**
+   * @param errors What was wrong with the message, as reported by Ajv
+   */
+  constructor(message: string, readonly errors: Ajv.ErrorObject[] = []) {
+    super(message)
+  }
+}
+
+/**
+ * What to send as the `stack` of an error:
+ * * `'redact'` sends a placeholder. This is the default.
+ * * `'omit'` leaves the stack out.
+ * * `'send'` sends the real stack. Since this can reveal details about the
+ * code that threw, this should only be used with trusted remotes.
+ */
+export type ErrorStackPolicy = 'redact' | 'omit' | 'send'
+
+// eslint-disable-next-line
+type ErrorConstructor = { new (...args: any[]): Error }
+
+/**
+ * Error classes that are revived as the right class when they are received.
+ * Errors are matched by `name`, so both ends must use the same names.
+ */
+export class ErrorRegistry {
+  protected readonly by_name = new Map<string, ErrorConstructor>()
+  protected readonly by_type = new Map<unknown, string>()
+
+  /**
+   * @param parent A registry to search for classes that aren't registered
+   * with this one. Defaults to `default_errors`.
+   */
+  constructor(readonly parent: ErrorRegistry | null = default_errors) {}
+
+  /**
+   * @param type The error class
+   * @param name The `name` of errors of this class. Defaults to the name of
+   * the class, which may be changed by minifiers.
+   * @throws If `name` is already registered with this registry
+   */
+  register(type: ErrorConstructor, name = type.name): this {
+    if (this.by_name.has(name)) {
+      throw new Error(`Error ${name} is already registered`)
+    }
+    this.by_name.set(name, type)
+    this.by_type.set(type, name)
+    return this
+  }
+  /**
+   * @returns If the name was registered
+   */
+  unregister(name: string): boolean {
+    const type = this.by_name.get(name)
+    if (!type) {
+      return false
+    }
+    this.by_name.delete(name)
+    this.by_type.delete(type)
+    return true
+  }
+  /**
+   * Finds the class for errors called `name`.
+   */
+  get(name: string): ErrorConstructor | undefined {
+    const type = this.by_name.get(name)
+    if (type) {
+      return type
+    }
+    return this.parent ? this.parent.get(name) : undefined
+  }
+  /**
+   * Finds the name an error is sent with if its class is registered. This is
+   * needed for classes, like Ajv's `ValidationError`, that don't set `name`.
+   */
+  nameOf(error: Error): string | undefined {
+    const name = this.by_type.get(error.constructor)
+    if (isDefined(name)) {
+      return name
+    }
+    return this.parent ? this.parent.nameOf(error) : undefined
+  }
+
+  /**
+   * Converts received error data into an instance of the registered class, or
+   * a `ForwardedError` if there isn't one. The constructor is not called.
+   */
+  revive(data: SerializedData): Error {
+    const obj = data as { [key: string]: SerializedData }
+    const type = this.get(String(obj.name)) || ForwardedError
+    const error = Object.create(type.prototype) as Error
+    Object.keys(obj).forEach((k) => {
+      // Assigning this would change the prototype
+      if (k === '__proto__') {
+        return
+      }
+      const value = obj[k]
+      ;((error as unknown) as { [key: string]: unknown })[k] =
+        k === 'cause' && isErrorData(value) ? this.revive(value) : value
+    })
+    return error
+  }
+}
+
+/**
+ * Checks if received data looks like a serialized error.
+ */
+export function isErrorData(data: unknown): boolean {
+  return (
+    Boolean(data) &&
+    typeof data === 'object' &&
+    typeof (data as { name?: unknown }).name === 'string' &&
+    Boolean((data as { name: string }).name)
+  )
+}
+
+/**
+ * Errors that every channel can revive: the built-in error classes, the errors
+ * thrown by channels, and Ajv's `ValidationError`. Other registries use this
+ * as their parent by default.
+ */
+export const default_errors: ErrorRegistry = new ErrorRegistry(null)
+;[
+  Error,
+  EvalError,
+  RangeError,
+  ReferenceError,
+  SyntaxError,
+  TypeError,
+  URIError,
+  InvalidChannelError,
+  RpcNotFoundError,
+  AccessDeniedError,
+  RpcInvalidArgumentsError,
+  RpcInternalError,
+  RpcTimeoutError,
+  RpcCancelledError,
+  RpcChannelClosedError,
+  RpcIncompatibleError,
+  RpcProtocolError
+].forEach((type) => default_errors.register(type))
+default_errors.register(Ajv.ValidationError, 'ValidationError')
+
+/**
+ * Converts an error into a plain object.
+ * @param error The error to convert
+ * @param serialize Converts custom properties and the `cause`
+ * @param errors Used to find the name to send
+ * @param error_stack What to send as the stack
+ */
+export function serializeError(
+  error: Error,
+  serialize: (data: SerializableData) => SerializedData,
+  errors: ErrorRegistry = default_errors,
+  error_stack: ErrorStackPolicy = 'redact'
+): { [key: string]: SerializedData } {
+  const other = (error as unknown) as { [key: string]: SerializableData }
+  const robj: { [key: string]: SerializedData } = {
+    name: errors.nameOf(error) || error.name,
+    message: error.message,
+    // These don't exist in the TS definitions, but they may exist in other
+    // runtime environments
+    columnNumber: serialize(other.columnNumber),
+    lineNumber: serialize(other.lineNumber),
+    fileName: serialize(other.fileName)
+  }
+  if (error_stack === 'redact') {
+    robj.stack = 'Stack trace redacted for security reasons'
+  } else if (error_stack === 'send') {
+    robj.stack = error.stack
+  }
+  Object.keys(error).forEach((k) => {
+    if (!(k in robj) && k !== 'stack' && k !== 'cause') {
+      robj[k] = serialize(other[k])
+    }
+  })
+  if (Object.prototype.hasOwnProperty.call(error, 'cause')) {
+    robj.cause = serialize(other.cause)
+  }
+  return robj
+}
@@ -0,0 +1,173 @@
+/**
+ * The optional handshake sent when a channel starts. Each end sends an
+ * `RpcHello` describing what it supports and both ends agree on the highest
+ * protocol version and the features that they have in common.
+ * @author Nathan Pennie <kb1rd@kb1rd.net>
+ */
+/** */
+
+import { RpcIncompatibleError } from './errors'
+import { isDefined } from './utils'
+
+/**
+ * The newest version of the protocol this library speaks. This is increased
+ * whenever a change to the messages would confuse older versions.
+ */
+export const RPC_PROTOCOL_VERSION = 1
+/**
+ * The oldest version of the protocol this library can still speak.
+ */
+export const RPC_MIN_PROTOCOL_VERSION = 1
+
+/**
+ * Optional parts of the protocol. Ends advertise the features they support
+ * and only the features supported by both ends are negotiated. Features that
+ * are not built in (such as `COMPRESSION`, which is up to the transport) can
+ * be advertised with the `features` handshake option.
+ */
+export enum RpcFeature {
+  GENERATORS = 'generators',
+  CANCELLATION = 'cancellation',
+  FLOW_CONTROL = 'flow_control',
+  REMOTE_REFS = 'remote_refs',
+  COMPRESSION = 'compression'
+}
+
+/**
+ * Features implemented by every `RpcChannel`.
+ */
+export const default_features: string[] = [
+  RpcFeature.GENERATORS,
+  RpcFeature.CANCELLATION,
+  RpcFeature.FLOW_CONTROL,
+  RpcFeature.REMOTE_REFS
+]
+
+/**
+ * Sent by each end to `['_', 'hello']` during the handshake.
+ */
+export interface RpcHello {
+  /**
+   * The newest protocol version this end speaks.
+   */
+  protocol: number
+  /**
+   * The oldest protocol version this end speaks.
+   */
+  min_protocol: number
+  features: string[]
+  /**
+   * The `name` of the value codec, if it has one.
+   */
+  codec?: string
+  /**
+   * The application's own version, such as the version of a worker bundle.
+   */
+  app_version?: string
+}
+
+export function isHello(data: unknown): boolean {
+  const hello = data as RpcHello
+  return (
+    Boolean(hello) &&
+    typeof hello === 'object' &&
+    Number.isInteger(hello.protocol) &&
+    Number.isInteger(hello.min_protocol) &&
+    Array.isArray(hello.features) &&
+    hello.features.every((f) => typeof f === 'string') &&
+    (!isDefined(hello.codec) || typeof hello.codec === 'string') &&
+    (!isDefined(hello.app_version) || typeof hello.app_version === 'string')
+  )
+}
+
+export interface RpcHandshakeOpts {
+  /**
+   * Sent to the remote end as `app_version`.
+   */
+  app_version?: string
+  /**
+   * Checks the remote end's `app_version`. If this returns false, the
+   * handshake fails. By default, any version is accepted.
+   */
+  accept_app_version?: (version: string | undefined) => boolean
+  /**
+   * Features to advertise in addition to `default_features`.
+   */
+  features?: string[]
+  /**
+   * Features that the remote end must support for the handshake to succeed.
+   */
+  required_features?: string[]
+  /**
+   * Milliseconds to wait for the remote end to respond. The channel is closed
+   * if it does not respond in time. Defaults to 10000.
+   */
+  timeout?: number
+}
+
+/**
+ * What both ends agreed on.
+ */
+export interface RpcHandshake {
+  /**
+   * The protocol version used by both ends.
+   */
+  protocol: number
+  /**
+   * Features supported by both ends.
+   */
+  features: string[]
+  /**
+   * What the remote end sent.
+   */
+  remote: RpcHello
+}
+
+/**
+ * Agrees on a protocol version and features.
+ * @param local What this end sent
+ * @param remote What the remote end sent
+ * @throws {RpcIncompatibleError} If the ends cannot talk to each other or the
+ * remote end doesn't meet the requirements in `opts`
+ */
+export function negotiate(
+  local: RpcHello,
+  remote: RpcHello,
+  opts: RpcHandshakeOpts = {}
+): RpcHandshake {
+  const protocol = Math.min(local.protocol, remote.protocol)
+  if (protocol < Math.max(local.min_protocol, remote.min_protocol)) {
+    throw new RpcIncompatibleError(
+      `Incompatible protocol versions: ` +
+        `local ${local.min_protocol}-${local.protocol}, ` +
+        `remote ${remote.min_protocol}-${remote.protocol}`
+    )
+  }
+  if (
+    isDefined(local.codec) &&
+    isDefined(remote.codec) &&
+    local.codec !== remote.codec
+  ) {
+    throw new RpcIncompatibleError(
+      `Incompatible codecs: local ${local.codec}, remote ${remote.codec}`
+    )
+  }
+  const missing = (opts.required_features || []).filter(
+    (f) => !remote.features.includes(f)
+  )
+  if (missing.length) {
+    throw new RpcIncompatibleError(
+      `Remote does not support required features: ${missing.join(', ')}`
+    )
+  }
+  if (opts.accept_app_version && !opts.accept_app_version(remote.app_version)) {
+    throw new RpcIncompatibleError(
+      `Incompatible application version: ${remote.app_version}`
+    )
+  }
+  return {
+    protocol,
+    features: local.features.filter((f) => remote.features.includes(f)),
+    remote
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Remembers the results of calls made with an `idempotency_key` so that a
+ * retried call returns the first result instead of running again.
+ * @author Nathan Pennie <kb1rd@kb1rd.net>
+ */
+/** */
+
+import { MultistringAddress } from './addrmap'
+import { SerializableData } from './serializer'
+import { isDefined } from './utils'
+
+interface CacheEntry {
+  result: Promise<SerializableData>
+  expires?: number
+}
+
+/**
+ * A bounded cache of call results, given to an `RpcChannel` with the
+ * `idempotency_cache` option. When a call arrives with an `idempotency_key`
+ * that has been seen before for the same address, the caller gets the first
+ * call's result, or waits for it if it is still running, and the function is
+ * not run again. Errors are remembered too, since the function did run, but
+ * nothing is remembered for calls that were cancelled or passed their
+ * deadline before they finished.
+ *
+ * The least recently used result is forgotten once there are more than
+ * `max_size`. A cache can be shared by several channels, such as the channels
+ * made by a `ReconnectingChannel`, but then any of their remote ends that
+ * knows a key can get its result.
+ */
+export class IdempotencyCache {
+  protected readonly entries = new Map<string, CacheEntry>()
+
+  /**
+   * @param max_size The most results to remember
+   * @param ttl Milliseconds to remember each result for. By default, results
+   * are only forgotten to make room.
+   */
+  constructor(readonly max_size = 1000, readonly ttl?: number) {}
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Finds the result of an earlier call, if it is remembered.
+   */
+  get(
+    address: MultistringAddress,
+    key: string
+  ): Promise<SerializableData> | undefined {
+    const id = JSON.stringify([address, key])
+    const entry = this.entries.get(id)
+    if (!entry) {
+      return undefined
+    }
+    this.entries.delete(id)
+    if (isDefined(entry.expires) && (entry.expires as number) <= Date.now()) {
+      return undefined
+    }
+    // Move to the end so that it is forgotten last
+    this.entries.set(id, entry)
+    return entry.result
+  }
+  set(
+    address: MultistringAddress,
+    key: string,
+    result: Promise<SerializableData>
+  ): void {
+    const id = JSON.stringify([address, key])
+    // Remembered errors shouldn't be reported as unhandled
+    result.catch(() => undefined)
+    const entry: CacheEntry = { result }
+    if (isDefined(this.ttl)) {
+      entry.expires = Date.now() + (this.ttl as number)
+    }
+    this.entries.delete(id)
+    this.entries.set(id, entry)
+    while (this.entries.size > this.max_size) {
+      this.entries.delete(this.entries.keys().next().value)
+    }
+  }
+  delete(address: MultistringAddress, key: string): boolean {
+    return this.entries.delete(JSON.stringify([address, key]))
+  }
+  clear(): void {
+    this.entries.clear()
+  }
+}
@@ -4,7 +4,20 @@
 /** */
 
 export * from './registry'
+export * from './context'
+export * from './errors'
 export * from './accesscontrol'
 export * from './serializer'
 export * from './schema'
 export * from './addrmap'
+export * from './typed'
+export * from './transport'
+export * from './codec'
+export * from './stream'
+export * from './msgpack'
+export * from './handshake'
+export * from './discovery'
+export * from './router'
+export * from './reconnect'
+export * from './reliable'
+export * from './idempotency'
@@ -0,0 +1,505 @@
+/**
+ * A self-contained MessagePack encoder and decoder for sending messages over
+ * byte streams and WebSockets. MessagePack is much more compact than JSON,
+ * especially for binary data, and can represent every kind of
+ * `SerializedData`.
+ * @author Nathan Pennie <kb1rd@kb1rd.net>
+ */
+/** */
+
+import { EncodedMessage, MessageCodec } from './codec'
+import { RpcMessage } from './registry'
+import { SerializedData } from './serializer'
+
+/**
+ * MessagePack extension types used for values that MessagePack doesn't have a
+ * type for. `Uint8Array`s are sent as MessagePack `bin` data.
+ */
+const EXT_UNDEFINED = 0
+const EXT_BIGINT = 1
+const EXT_BINARY = 2
+
+/**
+ * Binary types sent with `EXT_BINARY`. The first byte of the extension data
+ * is the index of the type in this list. Do not reorder this list, since that
+ * would break compatibility with other versions.
+ */
+const binary_type_names = [
+  'ArrayBuffer',
+  'DataView',
+  'Int8Array',
+  'Int16Array',
+  'Int32Array',
+  'BigInt64Array',
+  'Uint8ClampedArray',
+  'Uint16Array',
+  'Uint32Array',
+  'BigUint64Array',
+  'Float32Array',
+  'Float64Array'
+]
+
+type BinaryType = { new (buffer: ArrayBuffer): SerializedData }
+const globals = ((typeof globalThis !== 'undefined'
+  ? globalThis
+  : {}) as unknown) as { [name: string]: BinaryType | undefined }
+
+type PlainObject = { [key: string]: SerializedData }
+
+/**
+ * A growable byte buffer
+ */
+class Writer {
+  bytes = new Uint8Array(256)
+  view = new DataView(this.bytes.buffer)
+  length = 0
+
+  protected reserve(size: number): number {
+    const offset = this.length
+    if (offset + size > this.bytes.length) {
+      let capacity = this.bytes.length * 2
+      while (capacity < offset + size) {
+        capacity *= 2
+      }
+      const bytes = new Uint8Array(capacity)
+      bytes.set(this.bytes)
+      this.bytes = bytes
+      this.view = new DataView(bytes.buffer)
+    }
+    this.length += size
+    return offset
+  }
+  // `reserve` may replace `bytes` and `view`, so it must be called first
+  u8(val: number): void {
+    const offset = this.reserve(1)
+    this.bytes[offset] = val
+  }
+  u16(val: number): void {
+    const offset = this.reserve(2)
+    this.view.setUint16(offset, val)
+  }
+  u32(val: number): void {
+    const offset = this.reserve(4)
+    this.view.setUint32(offset, val)
+  }
+  i8(val: number): void {
+    const offset = this.reserve(1)
+    this.view.setInt8(offset, val)
+  }
+  i16(val: number): void {
+    const offset = this.reserve(2)
+    this.view.setInt16(offset, val)
+  }
+  i32(val: number): void {
+    const offset = this.reserve(4)
+    this.view.setInt32(offset, val)
+  }
+  f64(val: number): void {
+    const offset = this.reserve(8)
+    this.view.setFloat64(offset, val)
+  }
+  raw(bytes: Uint8Array): void {
+    const offset = this.reserve(bytes.length)
+    this.bytes.set(bytes, offset)
+  }
+  /**
+   * Writes a header for a type with 8, 16, and 32 bit length variants
+   */
+  sized(length: number, u8: number, u16: number, u32: number): void {
+    if (length < 0x100 && u8 >= 0) {
+      this.u8(u8)
+      this.u8(length)
+    } else if (length < 0x10000) {
+      this.u8(u16)
+      this.u16(length)
+    } else {
+      this.u8(u32)
+      this.u32(length)
+    }
+  }
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length)
+  }
+}
+
+function writeExt(w: Writer, type: number, data: Uint8Array): void {
+  const fixext = [1, 2, 4, 8, 16].indexOf(data.length)
+  if (fixext >= 0) {
+    w.u8(0xd4 + fixext)
+  } else {
+    w.sized(data.length, 0xc7, 0xc8, 0xc9)
+  }
+  w.u8(type)
+  w.raw(data)
+}
+
+/**
+ * Converts a `BigInt` into the smallest big endian two's complement bytes
+ */
+function bigintToBytes(val: bigint): Uint8Array {
+  const bytes: number[] = []
+  for (;;) {
+    const byte = Number(BigInt.asUintN(8, val))
+    bytes.unshift(byte)
+    val >>= 8n
+    // Stop when the sign bit of the last byte matches the remaining bits
+    if ((val === 0n && !(byte & 0x80)) || (val === -1n && byte & 0x80)) {
+      return new Uint8Array(bytes)
+    }
+  }
+}
+
+function bytesToBigint(bytes: Uint8Array): bigint {
+  let val = 0n
+  bytes.forEach((byte) => {
+    val = (val << 8n) | BigInt(byte)
+  })
+  return BigInt.asIntN(bytes.length * 8, val)
+}
+
+function writeNumber(w: Writer, val: number): void {
+  if (!Number.isInteger(val) || Object.is(val, -0)) {
+    w.u8(0xcb)
+    w.f64(val)
+  } else if (val >= 0 && val < 0x80) {
+    w.u8(val)
+  } else if (val < 0 && val >= -0x20) {
+    w.i8(val)
+  } else if (val >= 0 && val < 0x100) {
+    w.u8(0xcc)
+    w.u8(val)
+  } else if (val >= 0 && val < 0x10000) {
+    w.u8(0xcd)
+    w.u16(val)
+  } else if (val >= 0 && val < 0x100000000) {
+    w.u8(0xce)
+    w.u32(val)
+  } else if (val >= -0x80 && val < 0) {
+    w.u8(0xd0)
+    w.i8(val)
+  } else if (val >= -0x8000 && val < 0) {
+    w.u8(0xd1)
+    w.i16(val)
+  } else if (val >= -0x80000000 && val < 0) {
+    w.u8(0xd2)
+    w.i32(val)
+  } else {
+    // Larger integers are exactly representable as floats
+    w.u8(0xcb)
+    w.f64(val)
+  }
+}
+
+function write(w: Writer, data: SerializedData): void {
+  switch (typeof data) {
+    case 'undefined':
+      writeExt(w, EXT_UNDEFINED, new Uint8Array(1))
+      return
+    case 'boolean':
+      w.u8(data ? 0xc3 : 0xc2)
+      return
+    case 'number':
+      writeNumber(w, data)
+      return
+    case 'bigint':
+      writeExt(w, EXT_BIGINT, bigintToBytes(data))
+      return
+    case 'string': {
+      const bytes = new TextEncoder().encode(data)
+      if (bytes.length < 0x20) {
+        w.u8(0xa0 | bytes.length)
+      } else {
+        w.sized(bytes.length, 0xd9, 0xda, 0xdb)
+      }
+      w.raw(bytes)
+      return
+    }
+    case 'object':
+      break
+    default:
+      throw new TypeError(`Cannot encode ${typeof data} as MessagePack`)
+  }
+  if (data === null) {
+    w.u8(0xc0)
+    return
+  }
+  if (Array.isArray(data)) {
+    if (data.length < 0x10) {
+      w.u8(0x90 | data.length)
+    } else {
+      w.sized(data.length, -1, 0xdc, 0xdd)
+    }
+    data.forEach((d) => write(w, d))
+    return
+  }
+  if (data instanceof Uint8Array) {
+    w.sized(data.length, 0xc4, 0xc5, 0xc6)
+    w.raw(data)
+    return
+  }
+  const name = (data as { constructor?: { name?: string } }).constructor?.name
+  const type = binary_type_names.indexOf(name as string)
+  if (type >= 0 && (data instanceof ArrayBuffer || ArrayBuffer.isView(data))) {
+    const bytes =
+      data instanceof ArrayBuffer
+        ? new Uint8Array(data)
+        : new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    const ext = new Uint8Array(bytes.length + 1)
+    ext[0] = type
+    ext.set(bytes, 1)
+    writeExt(w, EXT_BINARY, ext)
+    return
+  }
+  const proto = Object.getPrototypeOf(data)
+  if (proto !== Object.prototype && proto !== null) {
+    throw new TypeError(`Cannot encode ${name} as MessagePack`)
+  }
+  const keys = Object.keys(data)
+  if (keys.length < 0x10) {
+    w.u8(0x80 | keys.length)
+  } else {
+    w.sized(keys.length, -1, 0xde, 0xdf)
+  }
+  keys.forEach((k) => {
+    write(w, k)
+    write(w, (data as PlainObject)[k])
+  })
+}
+
+/**
+ * Encodes data as MessagePack. `undefined`, `BigInt`s, and binary types other
+ * than `Uint8Array` use extension types that are specific to this library.
+ * Typed arrays are sent in the byte order of the platform, which is little
+ * endian nearly everywhere.
+ * @param data The data to encode. This should already be prepared with a
+ * `Codec` (such as `rpcSerialize`), since only plain objects are accepted.
+ * @throws If `data` contains a type that cannot be encoded, such as a
+ * `MessagePort`
+ */
+export function encodeMsgpack(data: SerializedData): Uint8Array {
+  const w = new Writer()
+  write(w, data)
+  return w.result()
+}
+
+/**
+ * Reads MessagePack from a buffer. Lengths are checked against the remaining
+ * data before anything is allocated, so corrupt data cannot cause huge
+ * allocations.
+ */
+class Reader {
+  view: DataView
+  offset = 0
+
+  constructor(readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  protected advance(size: number): number {
+    const offset = this.offset
+    if (offset + size > this.bytes.length) {
+      throw new RangeError('Unexpected end of MessagePack data')
+    }
+    this.offset += size
+    return offset
+  }
+  u8(): number {
+    return this.view.getUint8(this.advance(1))
+  }
+  u16(): number {
+    return this.view.getUint16(this.advance(2))
+  }
+  u32(): number {
+    return this.view.getUint32(this.advance(4))
+  }
+  raw(size: number): Uint8Array {
+    const offset = this.advance(size)
+    return this.bytes.slice(offset, offset + size)
+  }
+  /**
+   * Reads the number of items in an array or map, where each item is at least
+   * `item_size` bytes
+   */
+  count(count: number, item_size: number): number {
+    if (count * item_size > this.bytes.length - this.offset) {
+      throw new RangeError('Unexpected end of MessagePack data')
+    }
+    return count
+  }
+
+  str(size: number): string {
+    return new TextDecoder().decode(this.raw(size))
+  }
+  array(length: number): SerializedData[] {
+    const out: SerializedData[] = []
+    for (let i = this.count(length, 1); i > 0; i--) {
+      out.push(this.read())
+    }
+    return out
+  }
+  map(length: number): PlainObject {
+    const out: PlainObject = {}
+    for (let i = this.count(length, 2); i > 0; i--) {
+      const key = this.read()
+      if (typeof key !== 'string') {
+        throw new TypeError('MessagePack map keys must be strings')
+      }
+      // Don't let the data change the object's prototype
+      Object.defineProperty(out, key, {
+        value: this.read(),
+        enumerable: true,
+        writable: true,
+        configurable: true
+      })
+    }
+    return out
+  }
+  ext(size: number): SerializedData {
+    const type = this.u8()
+    const data = this.raw(size)
+    switch (type) {
+      case EXT_UNDEFINED:
+        return undefined
+      case EXT_BIGINT:
+        if (!data.length) {
+          throw new TypeError('Invalid MessagePack BigInt')
+        }
+        return bytesToBigint(data)
+      case EXT_BINARY: {
+        const name = binary_type_names[data[0]]
+        const buffer = data.slice(1).buffer
+        if (name === 'ArrayBuffer') {
+          return buffer
+        }
+        const type = globals[name]
+        if (!type) {
+          throw new TypeError(`Unknown MessagePack binary type ${data[0]}`)
+        }
+        return new type(buffer)
+      }
+      default:
+        throw new TypeError(`Unknown MessagePack extension type ${type}`)
+    }
+  }
+
+  read(): SerializedData {
+    const byte = this.u8()
+    if (byte < 0x80) {
+      return byte
+    } else if (byte < 0x90) {
+      return this.map(byte & 0x0f)
+    } else if (byte < 0xa0) {
+      return this.array(byte & 0x0f)
+    } else if (byte < 0xc0) {
+      return this.str(byte & 0x1f)
+    } else if (byte >= 0xe0) {
+      return byte - 0x100
+    }
+    switch (byte) {
+      case 0xc0:
+        return null
+      case 0xc2:
+        return false
+      case 0xc3:
+        return true
+      case 0xc4:
+        return this.raw(this.u8())
+      case 0xc5:
+        return this.raw(this.u16())
+      case 0xc6:
+        return this.raw(this.u32())
+      case 0xc7:
+        return this.ext(this.u8())
+      case 0xc8:
+        return this.ext(this.u16())
+      case 0xc9:
+        return this.ext(this.u32())
+      case 0xca:
+        return this.view.getFloat32(this.advance(4))
+      case 0xcb:
+        return this.view.getFloat64(this.advance(8))
+      case 0xcc:
+        return this.u8()
+      case 0xcd:
+        return this.u16()
+      case 0xce:
+        return this.u32()
+      case 0xcf: {
+        const val = this.view.getBigUint64(this.advance(8))
+        return val <= Number.MAX_SAFE_INTEGER ? Number(val) : val
+      }
+      case 0xd0:
+        return this.view.getInt8(this.advance(1))
+      case 0xd1:
+        return this.view.getInt16(this.advance(2))
+      case 0xd2:
+        return this.view.getInt32(this.advance(4))
+      case 0xd3: {
+        const val = this.view.getBigInt64(this.advance(8))
+        return val <= Number.MAX_SAFE_INTEGER && val >= Number.MIN_SAFE_INTEGER
+          ? Number(val)
+          : val
+      }
+      case 0xd4:
+      case 0xd5:
+      case 0xd6:
+      case 0xd7:
+      case 0xd8:
+        return this.ext(1 << (byte - 0xd4))
+      case 0xd9:
+        return this.str(this.u8())
+      case 0xda:
+        return this.str(this.u16())
+      case 0xdb:
+        return this.str(this.u32())
+      case 0xdc:
+        return this.array(this.u16())
+      case 0xdd:
+        return this.array(this.u32())
+      case 0xde:
+        return this.map(this.u16())
+      case 0xdf:
+        return this.map(this.u32())
+      default:
+        throw new TypeError(`Invalid MessagePack type ${byte}`)
+    }
+  }
+}
+
+/**
+ * Decodes data produced by `encodeMsgpack`. Standard MessagePack from other
+ * encoders can be read too, as long as map keys are strings. `bin` data is
+ * read as a `Uint8Array`, and 64 bit integers that cannot be represented
+ * exactly as a number are read as `BigInt`s.
+ * @throws If `bytes` is not valid MessagePack or has trailing data
+ */
+export function decodeMsgpack(bytes: Uint8Array): SerializedData {
+  const r = new Reader(bytes)
+  const data = r.read()
+  if (r.offset !== bytes.length) {
+    throw new RangeError('Unexpected data after MessagePack value')
+  }
+  return data
+}
+
+/**
+ * Encodes messages as MessagePack. Messages are usually much smaller than with
+ * JSON, but cannot be used with `NewlineFraming`. Since MessagePack can
+ * represent everything that `rpcSerialize` produces, the channel's default
+ * codec is used for values.
+ */
+export class MsgpackMessageCodec implements MessageCodec {
+  encode(msg: RpcMessage): EncodedMessage {
+    return encodeMsgpack((msg as unknown) as SerializedData)
+  }
+  decode(data: EncodedMessage): RpcMessage {
+    if (typeof data === 'string') {
+      throw new TypeError('MessagePack messages must be binary')
+    }
+    const msg = decodeMsgpack(data)
+    if (!msg || typeof msg !== 'object' || Array.isArray(msg)) {
+      throw new TypeError('Message is not an object')
+    }
+    return (msg as unknown) as RpcMessage
+  }
+}
@@ -0,0 +1,493 @@
+/**
+ * Keeps an `RpcChannel` connected by creating a new one whenever the old one
+ * closes, such as when a worker crashes or a WebSocket drops.
+ * @author Nathan Pennie <kb1rd@kb1rd.net>
+ */
+/** */
+
+import EventEmitter from 'eventemitter3'
+
+import { MultistringAddress, WildcardMultistringAddress } from './addrmap'
+import {
+  AccessController,
+  AccessPolicy,
+  ChainedAccessController
+} from './accesscontrol'
+import {
+  RpcChannel,
+  RpcChannelOpts,
+  RpcHandlerRegistry,
+  RpcCallOpts,
+  RpcGenerateOpts,
+  RpcEventHandler,
+  RpcFunction,
+  RpcState,
+  wasInterrupted
+} from './registry'
+import { RpcCancelledError, RpcChannelClosedError } from './errors'
+import { SerializableData, SerializedData } from './serializer'
+import { Transport, createChannel } from './transport'
+import { isDefined, randomId } from './utils'
+
+/**
+ * Creates the transport for each connection attempt. If this throws or
+ * rejects, the attempt fails and is retried.
+ */
+export type TransportFactory = () => Transport | Promise<Transport>
+
+export interface ReconnectingChannelOpts {
+  /**
+   * Options for each channel. These are passed to `createChannel`.
+   */
+  channel?: RpcChannelOpts
+  /**
+   * See `RpcChannel`
+   */
+  default_policy?: AccessPolicy
+  /**
+   * Milliseconds to wait before the first reconnection attempt. Each failed
+   * attempt multiplies this by `backoff_factor`. Defaults to 100.
+   */
+  initial_delay?: number
+  /**
+   * The longest wait between attempts. Defaults to 30 seconds.
+   */
+  max_delay?: number
+  /**
+   * Defaults to 2.
+   */
+  backoff_factor?: number
+  /**
+   * Gives up and closes after this many attempts in a row fail. By default,
+   * this retries forever.
+   */
+  max_attempts?: number
+}
+
+export interface ReconnectingCallOpts extends RpcCallOpts {
+  /**
+   * Makes the call again on the next channel if the channel closes before
+   * the call completes. Only set this if making the call twice is harmless.
+   *
+   * Every attempt of a call is sent with the same `idempotency_key`, so a
+   * remote end with an `IdempotencyCache` only runs it once. One is made up if
+   * not given.
+   */
+  idempotent?: boolean
+}
+
+export interface ReconnectingGenerateOpts extends RpcGenerateOpts {
+  /**
+   * Starts the generator again on the next channel if the channel closes
+   * before it yields anything. Only set this if running the generator twice is
+   * harmless.
+   */
+  idempotent?: boolean
+}
+
+interface Subscription {
+  topic: WildcardMultistringAddress
+  handler: RpcEventHandler
+  unsubscribe?: () => void
+}
+
+/**
+ * An `RpcChannel` that reconnects. Each connection uses a new transport from
+ * `connect` and a new channel, which is given the same `reg` and
+ * `access_controller`, so registered functions and access control survive
+ * reconnects. Subscriptions made with `subscribe` are made again on each new
+ * channel.
+ *
+ * Calls made while disconnected wait for the next channel. Calls that are in
+ * flight when the channel closes reject with an `RpcChannelClosedError`,
+ * unless they are `idempotent`, in which case they are retried. Generators
+ * finish when the channel closes, like those of `RpcChannel`, unless they are
+ * `idempotent` and haven't yielded anything yet.
+ *
+ * Events:
+ * * `connect`: A channel was started. Called with the channel.
+ * * `reconnect`: Same as `connect`, but not for the first channel.
+ * * `disconnect`: The channel closed. Called with the channel.
+ * * `reconnecting`: Called with the attempt number and the delay before the
+ * attempt is made.
+ * * `connecterror`: An attempt failed. Called with the error and the attempt
+ * number.
+ * * `subscribeerror`: A subscription could not be made again. Called with the
+ * error and the topic.
+ * * `close`: This was closed, either by `close` or after `max_attempts`.
+ */
+export class ReconnectingChannel extends EventEmitter {
+  protected _channel?: RpcChannel
+  protected _access_controller: AccessController = new ChainedAccessController(
+    undefined
+  )
+  protected _closed = false
+  protected _started = false
+  protected _has_connected = false
+  /**
+   * Failed attempts since the last connection
+   */
+  protected _attempts = 0
+  protected _timer?: number
+  protected _waiting: [(c: RpcChannel) => void, (e: Error) => void][] = []
+  protected readonly _subscriptions = new Set<Subscription>()
+
+  /**
+   * @param connect Creates a transport for each connection
+   * @param reg The handle registry used by every channel
+   */
+  constructor(
+    protected readonly connect: TransportFactory,
+    readonly reg: RpcHandlerRegistry = new RpcHandlerRegistry(),
+    protected readonly _opts: ReconnectingChannelOpts = {}
+  ) {
+    super()
+  }
+
+  /**
+   * The current channel, if connected
+   */
+  get channel(): RpcChannel | undefined {
+    return this._channel
+  }
+  get connected(): boolean {
+    return Boolean(this._channel)
+  }
+  get closed(): boolean {
+    return this._closed
+  }
+  get access_controller(): AccessController {
+    return this._access_controller
+  }
+  set access_controller(controller: AccessController) {
+    this._access_controller = controller
+    if (this._channel) {
+      this._channel.access_controller = controller
+    }
+  }
+
+  /**
+   * Connects for the first time. This resolves once connected; failed
+   * attempts are retried like reconnects.
+   */
+  start(): Promise<void> {
+    if (!this._started && !this._closed) {
+      this._started = true
+      this.open(++this._attempts)
+    }
+    return this.waitForChannel().then(() => undefined)
+  }
+
+  /**
+   * Closes the channel and stops reconnecting. Calls that are waiting for a
+   * channel reject with an `RpcChannelClosedError`.
+   */
+  close(): void {
+    if (this._closed) {
+      return
+    }
+    this._closed = true
+    if (isDefined(this._timer)) {
+      clearTimeout(this._timer)
+      delete this._timer
+    }
+    const error = new RpcChannelClosedError('Channel closed')
+    this._waiting.forEach(([, reject]) => reject(error))
+    this._waiting = []
+    this._subscriptions.clear()
+    if (this._channel) {
+      this._channel.close()
+    }
+    this.emit('close')
+  }
+  stop = (): void => this.close()
+
+  register(address: WildcardMultistringAddress, func: RpcFunction): void {
+    this.reg.register(address, func)
+  }
+  unregister(address: WildcardMultistringAddress): void {
+    this.reg.unregister(address)
+  }
+
+  /**
+   * Waits until connected.
+   * @param signal Stops waiting when aborted
+   * @throws {RpcChannelClosedError} If this is closed first
+   * @throws {RpcCancelledError} If `signal` is aborted first
+   */
+  waitForChannel(signal?: AbortSignal): Promise<RpcChannel> {
+    if (this._channel) {
+      return Promise.resolve(this._channel)
+    }
+    if (this._closed) {
+      return Promise.reject(new RpcChannelClosedError('Channel closed'))
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new RpcCancelledError('Cancelled'))
+    }
+    return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        this._waiting = this._waiting.filter((w) => w !== waiter)
+        reject(new RpcCancelledError('Cancelled'))
+      }
+      const waiter: [(c: RpcChannel) => void, (e: Error) => void] = [
+        (channel) => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve(channel)
+        },
+        (e) => {
+          signal?.removeEventListener('abort', onAbort)
+          reject(e)
+        }
+      ]
+      this._waiting.push(waiter)
+      signal?.addEventListener('abort', onAbort)
+    })
+  }
+
+  /**
+   * Like `RpcChannel.call`. The `timeout` and `deadline` cover retries as
+   * well, but are only checked once a channel is connected. Aborting the
+   * `signal` also stops waiting for a channel.
+   */
+  async call(
+    to: MultistringAddress,
+    args: SerializableData[] = [],
+    opts: ReconnectingCallOpts = {}
+  ): Promise<SerializedData> {
+    const { idempotent, timeout, ...call_opts } = opts
+    if (idempotent && !isDefined(call_opts.idempotency_key)) {
+      call_opts.idempotency_key = randomId()
+    }
+    if (isDefined(timeout)) {
+      const deadline = Date.now() + (timeout as number)
+      if (!isDefined(opts.deadline) || deadline < (opts.deadline as number)) {
+        call_opts.deadline = deadline
+      }
+    }
+    for (;;) {
+      const channel = await this.waitForChannel(opts.signal)
+      try {
+        return await channel.call(to, args, call_opts)
+      } catch (e) {
+        if (!idempotent || !(e instanceof RpcChannelClosedError)) {
+          throw e
+        }
+      }
+    }
+  }
+  /**
+   * Like `RpcChannel.generate`. The generator is started right away if
+   * connected, or as soon as a channel connects otherwise. Aborting the
+   * `signal` also stops waiting for a channel. Generators that have finished
+   * are never started again.
+   */
+  generate(
+    to: MultistringAddress,
+    args: SerializableData[] = [],
+    opts: ReconnectingGenerateOpts = {}
+  ): AsyncGenerator<SerializedData, SerializedData, SerializableData> {
+    const { idempotent, ...gen_opts } = opts
+    let remote:
+      | AsyncGenerator<SerializedData, SerializedData, SerializableData>
+      | undefined
+    let stopped = false
+    const start = (c: RpcChannel): void => {
+      if (!stopped) {
+        remote = c.generate(to, args, gen_opts)
+      }
+    }
+    const started = this._channel
+      ? Promise.resolve(start(this._channel))
+      : this.waitForChannel(opts.signal).then(start)
+    // Rejections are thrown by the generator if it is used
+    started.catch(() => undefined)
+    const waitForChannel = (): Promise<RpcChannel> =>
+      this.waitForChannel(opts.signal)
+
+    const gen = (async function* () {
+      await started
+      let received = false
+      let value: SerializableData = undefined
+      while (remote) {
+        const result: IteratorResult<
+          SerializedData,
+          SerializedData
+        > = await remote.next(value)
+        if (!result.done) {
+          received = true
+          value = yield result.value
+        } else if (
+          idempotent &&
+          !received &&
+          !stopped &&
+          wasInterrupted(remote)
+        ) {
+          // The channel closed, and nothing was lost by starting again
+          remote = undefined
+          start(await waitForChannel())
+          value = undefined
+        } else {
+          return result.value
+        }
+      }
+      return undefined
+    })()
+
+    const stop = (): void => {
+      stopped = true
+      if (remote) {
+        remote.return(undefined).catch(() => undefined)
+      }
+    }
+    const original_return = gen.return
+    const original_throw = gen.throw
+    return Object.assign(gen, {
+      return(
+        value: SerializedData
+      ): Promise<IteratorResult<SerializedData, SerializedData>> {
+        stop()
+        return original_return.apply(gen, [value])
+      },
+      // eslint-disable-next-line
+      throw(e: any): Promise<IteratorResult<SerializedData, SerializedData>> {
+        stop()
+        return original_throw.apply(gen, [e])
+      }
+    })
+  }
+  /**
+   * Like `RpcChannel.send`.
+   * @throws {RpcChannelClosedError} If not connected
+   */
+  send(to: MultistringAddress, args: SerializableData[] = []): void {
+    if (!this._channel) {
+      throw new RpcChannelClosedError('Channel is not connected')
+    }
+    this._channel.send(to, args)
+  }
+
+  /**
+   * Like `RpcChannel.subscribe`, but the subscription is made again each time
+   * a new channel connects.
+   */
+  async subscribe(
+    topic: WildcardMultistringAddress,
+    handler: RpcEventHandler
+  ): Promise<() => void> {
+    const sub: Subscription = { topic, handler }
+    for (;;) {
+      const channel = await this.waitForChannel()
+      try {
+        sub.unsubscribe = await channel.subscribe(topic, handler)
+        break
+      } catch (e) {
+        if (!(e instanceof RpcChannelClosedError)) {
+          throw e
+        }
+      }
+    }
+    this._subscriptions.add(sub)
+    return (): void => {
+      if (this._subscriptions.delete(sub) && sub.unsubscribe) {
+        sub.unsubscribe()
+      }
+    }
+  }
+  /**
+   * Like `RpcChannel.publish`. Nothing is published while disconnected.
+   */
+  publish(topic: MultistringAddress, ...data: SerializableData[]): number {
+    return this._channel ? this._channel.publish(topic, ...data) : 0
+  }
+
+  /**
+   * Waits and then makes another connection attempt
+   */
+  protected attempt(): void {
+    const {
+      initial_delay = 100,
+      max_delay = 30000,
+      backoff_factor = 2,
+      max_attempts
+    } = this._opts
+    if (isDefined(max_attempts) && this._attempts >= (max_attempts as number)) {
+      this.close()
+      return
+    }
+    const attempt = ++this._attempts
+    const delay = Math.min(
+      max_delay,
+      initial_delay * Math.pow(backoff_factor, attempt - 1)
+    )
+    this.emit('reconnecting', attempt, delay)
+    this._timer = setTimeout(() => {
+      delete this._timer
+      this.open(attempt)
+    }, delay)
+  }
+  protected async open(attempt: number): Promise<void> {
+    let channel: RpcChannel | undefined
+    try {
+      const transport = await this.connect()
+      // Copied since channels change their options, such as in `setTimeout`
+      channel = createChannel(transport, this._opts.default_policy, this.reg, {
+        ...this._opts.channel
+      })
+      channel.access_controller = this._access_controller
+      if (this._closed) {
+        channel.close()
+        return
+      }
+      await channel.start()
+      if (channel.state === RpcState.CLOSED) {
+        throw new RpcChannelClosedError('Channel closed while connecting')
+      }
+    } catch (e) {
+      if (this._closed) {
+        return
+      }
+      this.emit('connecterror', e, attempt)
+      this.attempt()
+      return
+    }
+    if (this._closed) {
+      channel.close()
+      return
+    }
+    this.attach(channel)
+  }
+  protected attach(channel: RpcChannel): void {
+    const reconnect = this._has_connected
+    this._has_connected = true
+    this._attempts = 0
+    this._channel = channel
+    channel.once('close', () => {
+      this._channel = undefined
+      this._subscriptions.forEach((sub) => delete sub.unsubscribe)
+      this.emit('disconnect', channel)
+      if (!this._closed) {
+        this.attempt()
+      }
+    })
+    this._subscriptions.forEach((sub) => {
+      channel
+        .subscribe(sub.topic, sub.handler)
+        .then((unsubscribe) => {
+          if (this._subscriptions.has(sub) && this._channel === channel) {
+            sub.unsubscribe = unsubscribe
+          } else {
+            unsubscribe()
+          }
+        })
+        .catch((e) => this.emit('subscribeerror', e, sub.topic))
+    })
+    const waiting = this._waiting
+    this._waiting = []
+    waiting.forEach(([resolve]) => resolve(channel))
+    this.emit('connect', channel)
+    if (reconnect) {
+      this.emit('reconnect', channel)
+    }
+  }
+}
@@ -4,6 +4,7 @@
 /** */
 
 import EventEmitter from 'eventemitter3'
+import Ajv from 'ajv'
 
 import {
   MultistringAddress,
@@ -20,11 +21,54 @@ import {
   PermissionedAccessCanFunction,
   CanCallOpts
 } from './accesscontrol'
-import { rpcSerialize, SerializableData, SerializedData } from './serializer'
+import { SerializableData, SerializedData, TypeRegistry } from './serializer'
+import { Codec, StructuredCloneCodec } from './codec'
+import {
+  InvalidChannelError,
+  RpcNotFoundError,
+  AccessDeniedError,
+  RpcInvalidArgumentsError,
+  RpcInternalError,
+  RpcTimeoutError,
+  RpcCancelledError,
+  RpcChannelClosedError,
+  RpcIncompatibleError,
+  RpcProtocolError,
+  ErrorRegistry,
+  ErrorStackPolicy,
+  default_errors,
+  isErrorData
+} from './errors'
+import {
+  RpcHello,
+  RpcHandshake,
+  RpcHandshakeOpts,
+  RPC_PROTOCOL_VERSION,
+  RPC_MIN_PROTOCOL_VERSION,
+  default_features,
+  isHello,
+  negotiate
+} from './handshake'
+import {
+  Schema,
+  ResultSchemas,
+  RpcArgumentSchema,
+  RpcResultSchema,
+  checkArguments,
+  checkResult,
+  isArgumentError
+} from './schema'
+import { RpcEndpointInfo, describeEndpoints } from './discovery'
+import { IdempotencyCache } from './idempotency'
+import { RpcCallContext } from './context'
 import { isDefined } from './utils'
 
 export const RpcFunctionAddress = Symbol('RpcFunctionAddress')
 export const RpcRemappedFunction = Symbol('RpcRemappedFunction')
+export const RpcWantsCallContext = Symbol('RpcWantsCallContext')
+export const RpcReleaseRef = Symbol('RpcReleaseRef')
+export const RpcReturnsGenerator = Symbol('RpcReturnsGenerator')
+export const RpcGeneratorInterrupted = Symbol('RpcGeneratorInterrupted')
 
 interface WithValidAddressKey {
   [RpcFunctionAddress]?: WildcardMultistringAddress
@@ -33,7 +77,7 @@ interface WithValidAddressKey {
 type RpcResult =
   | SerializableData
   | Promise<SerializableData>
-  | AsyncGenerator<SerializableData, void, void>
+  | AsyncGenerator<SerializableData, SerializableData, SerializedData>
 
 /**
  * A destination function for Remote Procedure Calls (RPCs).
@@ -43,8 +87,12 @@ type RpcResult =
 export interface RpcFunction extends WithValidAddressKey {
   (src: RpcChannel, wildcards: string[], ...args: SerializedData[]): RpcResult
   [RpcRemappedFunction]?: RpcFunction
+  [RpcWantsCallContext]?: boolean
   [CanCallFunction]?: PermissionedAccessCanFunction
   [RequiresPermissions]?: Iterable<string>
+  [RpcReturnsGenerator]?: boolean
+  [RpcArgumentSchema]?: Schema
+  [RpcResultSchema]?: ResultSchemas
 }
 
 export function RpcAddress(address: WildcardMultistringAddress) {
@@ -62,6 +110,63 @@ export function RpcAddress(address: WildcardMultistringAddress) {
   }
 }
 
+/**
+ * Marks the function as one to be called with `generate`. This is only used
+ * for discovery, and is not needed for native async generator functions.
+ */
+export function ReturnsGenerator() {
+  return function (
+    // eslint-disable-next-line
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ): void {
+    const func = descriptor.value
+    if (typeof func !== 'function') {
+      throw new TypeError('Cannot mark non-function as generator')
+    }
+    func[RpcReturnsGenerator] = true
+  }
+}
+
+/**
+ * A destination function that receives an `RpcCallContext` instead of the
+ * channel and wildcards.
+ */
+export type RpcContextFunction = (
+  ctx: RpcCallContext,
+  ...args: SerializedData[]
+) => RpcResult
+
+/**
+ * Marks `func` as receiving an `RpcCallContext` so that it can be registered
+ * like any other `RpcFunction`.
+ */
+export function UseCallContext(func: RpcContextFunction): RpcFunction {
+  const rfunc = (func as unknown) as RpcFunction
+  rfunc[RpcWantsCallContext] = true
+  return rfunc
+}
+
+/**
+ * Passes an `RpcCallContext` to the function in place of the channel and
+ * wildcards.
+ */
+export function WithCallContext() {
+  return function (
+    // eslint-disable-next-line
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ): void {
+    const func = descriptor.value
+    if (typeof func !== 'function') {
+      throw new TypeError('Cannot pass call context to non-function')
+    }
+    func[RpcWantsCallContext] = true
+  }
+}
+
 export function RemapArguments(
   mapping: ('pass' | 'drop' | 'expand')[],
   key: string | symbol | number = RpcRemappedFunction
@@ -126,6 +231,50 @@ export interface RpcMessage {
   args: SerializedData[]
   return_addr?: MultistringAddress
   return_type?: 'promise' | 'generator'
+  /**
+   * Time (in ms since the epoch) after which the caller stops waiting for a
+   * response.
+   */
+  deadline?: number
+  /**
+   * For generators, whether values sent to `['_', 'nextgen', ...return_addr]`
+   * are passed to the generator's `next`. Unless `credit` is set, the remote
+   * end waits for one of these before generating each value after the first.
+   */
+  bidirectional?: boolean
+  /**
+   * For generators, the number of values that may be sent before the caller
+   * grants more with `['_', 'nextgen', ...return_addr]`. The arguments to that
+   * are the value to pass to the generator's `next` and the number of values
+   * granted (default 1). If this is not set, values are sent as fast as they
+   * are generated.
+   */
+  credit?: number
+  /**
+   * Set if `args` contain `RpcRefToken`s to be turned into proxies.
+   */
+  refs?: boolean
+  /**
+   * The sequence number given by a `ReliableTransport`
+   */
+  seq?: number
+  /**
+   * Acknowledges every message with a lower `seq`. Set by a
+   * `ReliableTransport`.
+   */
+  ack?: number
+  /**
+   * Identifies the `ReliableTransport` that sent the message
+   */
+  session?: string
+  /**
+   * The `session` of the `ReliableTransport` that the message is meant for
+   */
+  peer?: string
+  /**
+   * Identifies retries of the same call. See `IdempotencyCache`.
+   */
+  idempotency_key?: string
 }
 
 export namespace RpcMessage {
@@ -135,18 +284,30 @@ export namespace RpcMessage {
       to: { type: 'array', items: { type: 'string' } },
       args: { type: 'array' },
       return_addr: { type: 'array', items: { type: 'string' } },
-      return_type: { type: 'string', enum: ['promise', 'generator'] }
+      return_type: { type: 'string', enum: ['promise', 'generator'] },
+      deadline: { type: 'number' },
+      bidirectional: { type: 'boolean' },
+      credit: { type: 'number' },
+      refs: { type: 'boolean' },
+      seq: { type: 'integer', minimum: 0 },
+      ack: { type: 'integer', minimum: 0 },
+      session: { type: 'string' },
+      peer: { type: 'string' },
+      idempotency_key: { type: 'string' }
     },
     required: ['to', 'args']
   }
 }
 
+const ajv = new Ajv()
+const validateMessage = ajv.compile(RpcMessage.Schema)
+
 export type BaseRegisteredObject = { [key: string]: WithValidAddressKey }
 
 /**
  * Anything where RPC functions can be registered and unregistered.
  */
-interface HandleRegistry {
+export interface HandleRegistry {
   /**
    * Registers a handler for incoming data
    * @param address Address for the handle
@@ -171,6 +332,35 @@ interface HandleRegistry {
   unregisterAll(obj: BaseRegisteredObject): void
 }
 
+/**
+ * Properties of functions that are kept when they are wrapped by `registerAll`
+ */
+const function_metadata = [
+  RpcWantsCallContext,
+  CanCallFunction,
+  RequiresPermissions,
+  RpcReturnsGenerator,
+  RpcArgumentSchema,
+  RpcResultSchema
+] as const
+
+/**
+ * Copies what decorators have set on `from` to a function that wraps it, so
+ * that access control, schemas, and discovery still apply to the wrapper.
+ */
+export function copyFunctionMetadata(from: RpcFunction, to: RpcFunction): void {
+  function_metadata.forEach((key) => {
+    // eslint-disable-next-line
+    ;(to as any)[key] = from[key]
+  })
+  // The wrapper is not an async generator function itself
+  if (
+    Object.prototype.toString.call(from) === '[object AsyncGeneratorFunction]'
+  ) {
+    to[RpcReturnsGenerator] = true
+  }
+}
+
 /**
  * Where RPC handles are registered to a particular address. This can be
  * re-used between different `RpcChannel`s.
@@ -205,10 +395,12 @@ export class RpcHandlerRegistry
           while (tgt[RpcRemappedFunction]) {
             tgt = tgt[RpcRemappedFunction] as RpcFunction
           }
+          // eslint-disable-next-line
+          const wrapped: RpcFunction = (...args: any) => tgt.apply(base, args)
+          copyFunctionMetadata(func, wrapped)
           this.register(
             func[RpcFunctionAddress] as WildcardMultistringAddress,
-            // eslint-disable-next-line
-            (...args: any) => tgt.apply(base, args)
+            wrapped
           )
         }
       }
@@ -243,22 +435,81 @@ export interface RpcAccessor {
   [key: string]: RpcAccessor
 }
 
-/**
- * Thrown when a return from a function call reaches a different RpcChannel
- * than it was sent from. This **may** indicate a security issue due to re-used
- * recieve callbacks.
- */
-export class InvalidChannelError extends Error {
-  readonly name = 'InvalidChannelError'
+export interface RpcSendOpts {
+  /**
+   * Time (in ms since the epoch) after which the caller stops waiting for a
+   * response. This is forwarded to the remote end.
+   */
+  deadline?: number
+  /**
+   * Whether the remote generator should wait for values passed to `next`.
+   */
+  bidirectional?: boolean
+  /**
+   * Initial number of generator values the remote end may send.
+   */
+  credit?: number
+  /**
+   * Sent with the call so that, if the remote end has an
+   * `idempotency_cache`, calls with the same key only run once. Use the same
+   * key when retrying a call. This is ignored by generators.
+   */
+  idempotency_key?: string
 }
 
-export class AccessDeniedError extends Error {
-  readonly name = 'AccessDeniedError'
+export interface RpcGenerateOpts {
+  /**
+   * When aborted, the remote function is told to stop and the call rejects
+   * with an `RpcCancelledError`.
+   */
+  signal?: AbortSignal
+  /**
+   * Passes values given to `next` to the remote generator. The remote
+   * generator will only advance when `next` is called, which costs a round
+   * trip per value.
+   */
+  bidirectional?: boolean
+  /**
+   * The most values that will be buffered locally. The remote generator pauses
+   * once this many values are waiting to be consumed. If this is not set,
+   * values are sent as fast as they are generated unless `bidirectional` is
+   * set. If both are set, the remote generator runs ahead of `next` by up to
+   * this many values, so values passed to `next` apply to later values.
+   */
+  high_water_mark?: number
+  /**
+   * If the generator is not advanced for this many milliseconds, it is
+   * stopped and throws an `RpcTimeoutError` the next time it is advanced.
+   */
+  idle_timeout?: number
+  /**
+   * Time (in ms since the epoch) after which the remote end won't start the
+   * generator. This is forwarded to the remote end as the `deadline` of its
+   * `RpcCallContext`.
+   */
+  deadline?: number
+  /**
+   * Sent with the generator. Generators aren't kept in an
+   * `idempotency_cache`, but this lets routers pass the key on.
+   */
+  idempotency_key?: string
 }
 
-export class ForwardedError extends Error {}
+export interface RpcCallOpts
+  extends Pick<RpcSendOpts, 'deadline' | 'idempotency_key'> {
+  /**
+   * When aborted, the remote function is told to stop and the call rejects
+   * with an `RpcCancelledError`.
+   */
+  signal?: AbortSignal
+  /**
+   * Milliseconds to wait for a response. If both this and `deadline` are set,
+   * whichever comes first is used.
+   */
+  timeout?: number
+}
 
-interface RpcChannelOpts {
+export interface RpcChannelOpts {
   /**
    * If a keepalive has not been received for this much time, assume that this
    * `RpcChannel` has been closed.
@@ -275,6 +526,194 @@ interface RpcChannelOpts {
    * worker's host, or a tab's creator.
    */
   await_first_msg?: boolean
+  /**
+   * The default `high_water_mark` for generators created with `generate`.
+   */
+  high_water_mark?: number
+  /**
+   * The default `idle_timeout` for generators created with `generate`. This
+   * also stops generators served by this channel if they wait for credit for
+   * longer than this.
+   */
+  generator_idle_timeout?: number
+  /**
+   * Converts values to and from the format that is sent. Defaults to a
+   * `StructuredCloneCodec`, which requires the transport to support structured
+   * cloning. Both ends must use the same codec.
+   */
+  codec?: Codec
+  /**
+   * Classes that are sent as tagged values and revived on the receiving end.
+   * Both ends must register the same classes.
+   */
+  types?: TypeRegistry
+  /**
+   * Error classes that are revived when they are received. Classes in
+   * `default_errors`, such as `TypeError` and `AccessDeniedError`, are always
+   * revived. Errors of other classes are received as `ForwardedError`s.
+   */
+  errors?: ErrorRegistry
+  /**
+   * What to send as the stack of errors. Defaults to `'redact'`.
+   */
+  error_stack?: ErrorStackPolicy
+  /**
+   * Exchanges an `RpcHello` with the remote end in `start` and checks that
+   * both ends are compatible. `start` rejects with an `RpcIncompatibleError`
+   * and the channel is closed if they are not. Channels always answer the
+   * remote end's handshake, even if this isn't set.
+   */
+  handshake?: boolean | RpcHandshakeOpts
+  /**
+   * Closes the channel once this many malformed messages have been received.
+   * Malformed messages are always dropped and cause a `protocolerror` event.
+   * By default, the channel is never closed because of them.
+   */
+  max_protocol_errors?: number
+  /**
+   * Serves a list of the functions in `reg` at `['_', 'describe']`, which the
+   * remote end can fetch with `discover`. Like any other function, access to
+   * this can be denied with the `access_controller`. Functions that the remote
+   * end is denied access to are left out of the list.
+   */
+  discovery?: boolean
+  /**
+   * Remembers the results of calls made with an `idempotency_key`. Calls
+   * with a key that is already in the cache get the remembered result instead
+   * of running again.
+   */
+  idempotency_cache?: IdempotencyCache
+}
+
+const default_codec = new StructuredCloneCodec()
+
+/**
+ * Sent in place of a value marked with `Proxied`. A function is served at
+ * `['_', 'ref', rpc_ref]` and the methods of an object at
+ * `['_', 'ref', rpc_ref, method]`. Once the receiver is done with it, it sends
+ * `rpc_ref` to `['_', 'unref']`.
+ */
+export interface RpcRefToken {
+  rpc_ref: string
+  methods?: string[]
+}
+
+/**
+ * A proxy created from an `RpcRefToken`. Calling it (or its methods) calls the
+ * original over the channel and returns a promise.
+ */
+export interface RemoteRef {
+  [RpcReleaseRef]: () => void
+}
+
+/**
+ * Tells the remote end that the proxy `ref` is no longer needed. Calls made
+ * with the proxy afterwards reject. This also happens when the proxy is
+ * garbage collected (where `FinalizationRegistry` is supported) or when the
+ * channel closes. Values that are not proxies are ignored.
+ * @param ref A proxy received in place of a `Proxied` value
+ */
+export function releaseRef(ref: unknown): void {
+  const release = ref && (ref as RemoteRef)[RpcReleaseRef]
+  if (typeof release === 'function') {
+    release()
+  }
+}
+
+/**
+ * Whether a generator returned by `RpcChannel.generate` finished because the
+ * channel closed before the remote generator did. Generators that finished
+ * normally, or that are still running, are not interrupted.
+ * @param gen A generator returned by `RpcChannel.generate`
+ */
+export function wasInterrupted(gen: unknown): boolean {
+  return Boolean(
+    gen &&
+      (gen as { [RpcGeneratorInterrupted]?: boolean })[RpcGeneratorInterrupted]
+  )
+}
+
+function isRefToken(data: SerializedData): boolean {
+  const token = (data as unknown) as RpcRefToken
+  return (
+    typeof token.rpc_ref === 'string' &&
+    (!isDefined(token.methods) ||
+      (Array.isArray(token.methods) &&
+        token.methods.every((m) => typeof m === 'string')))
+  )
+}
+
+function getMethodNames(target: unknown): string[] {
+  const names = new Set<string>()
+  let obj = target as { [key: string]: unknown }
+  do {
+    for (const k of Object.getOwnPropertyNames(obj)) {
+      if (k !== 'constructor' && typeof obj[k] === 'function') {
+        names.add(k)
+      }
+    }
+  } while (
+    (obj = Object.getPrototypeOf(obj)) &&
+    obj !== ((Object.prototype as unknown) as typeof obj)
+  )
+  return [...names]
+}
+
+/**
+ * Converts an error thrown by a called function into the error sent to the
+ * caller. Arguments rejected by `EnforceArgumentSchema` are reported with an
+ * `RpcInvalidArgumentsError`. Other errors are sent as they are, so errors of
+ * the function itself don't have a `code` unless they set one.
+ */
+function toCallerError<T>(error: T): T | RpcInvalidArgumentsError {
+  if (isArgumentError(error)) {
+    const e = new RpcInvalidArgumentsError(
+      ((error as unknown) as Error).message
+    )
+    return Object.assign(e, { cause: error })
+  }
+  return error
+}
+
+/**
+ * What is needed to clean up a generator returned by `RpcChannel.generate`.
+ */
+interface OutgoingStream {
+  return_addr: MultistringAddress
+  finished: boolean
+  /**
+   * Set if the channel closed before the remote generator finished
+   */
+  interrupted: boolean
+  idle_timer?: number
+  onChannelClose: () => void
+  signal?: AbortSignal
+  onAbort: () => void
+}
+
+/**
+ * Calls `stop` before `gen` returns or throws. This is kept out of `generate`
+ * since these functions must reference `gen`.
+ */
+function stopOnReturn(
+  gen: AsyncGenerator<SerializedData, SerializedData, SerializableData>,
+  stop: () => void
+): AsyncGenerator<SerializedData, SerializedData, SerializableData> {
+  const original_return = gen.return
+  const original_throw = gen.throw
+  return Object.assign(gen, {
+    return(
+      value: SerializedData
+    ): Promise<IteratorResult<SerializedData, SerializedData>> {
+      stop()
+      return original_return.apply(gen, [value])
+    },
+    // eslint-disable-next-line
+    throw(e: any): Promise<IteratorResult<SerializedData, SerializedData>> {
+      stop()
+      return original_throw.apply(gen, [e])
+    }
+  })
 }
 
 export enum RpcState {
@@ -283,6 +722,14 @@ export enum RpcState {
   CLOSED
 }
 
+/**
+ * Receives events from `RpcChannel.subscribe`.
+ */
+export type RpcEventHandler = (
+  topic: MultistringAddress,
+  ...data: SerializedData[]
+) => void
+
 /**
  * A wrapper class for functions to perform remote procedure calls.
  */
@@ -295,6 +742,47 @@ export class RpcChannel
   active_timeout?: number
   active_keepalive?: number
   protected _state: RpcState = RpcState.INACTIVE
+  protected _incoming_streams = 0
+  protected _outgoing_streams = 0
+  /**
+   * Releases remote resources (generators and references) when the local
+   * object that uses them is garbage collected.
+   */
+  protected readonly _finalizer =
+    typeof FinalizationRegistry !== 'undefined'
+      ? new FinalizationRegistry((stop: () => void) => stop())
+      : undefined
+  protected ref_seq_id = 0
+  /**
+   * The addresses served for each reference sent with `Proxied`.
+   */
+  protected readonly _exported_refs = new Map<string, MultistringAddress[]>()
+  /**
+   * The first `RpcHello` received. This is not validated until the handshake
+   * completes.
+   */
+  protected _remote_hello?: SerializedData
+  protected _handshake?: RpcHandshake
+  protected _protocol_errors = 0
+  protected _remote_endpoints?: Promise<RpcEndpointInfo[]>
+  /**
+   * Schemas that arguments are checked against before they are sent
+   */
+  protected readonly _arg_schemas = new AddressMap<
+    Pick<RpcEndpointInfo, 'schema' | 'call_info'>
+  >()
+  protected sub_seq_id = 0
+  /**
+   * The remote end's subscriptions by ID
+   */
+  protected readonly _subscriptions = new Map<string, (string | null)[]>()
+  /**
+   * The IDs of the remote end's subscriptions to each topic. The same sets are
+   * kept in `_topic_ids` by the JSON of the topic so they can be found
+   * without matching.
+   */
+  protected readonly _topics = new AddressMap<Set<string>>()
+  protected readonly _topic_ids = new Map<string, Set<string>>()
 
   /**
    * @param c_send The function to send over whatever transport is used.
@@ -308,6 +796,28 @@ export class RpcChannel
   ) {
     super()
     this._i_reg.register(['_', 'close'], () => this.close(false))
+    this._i_reg.register(['_', 'unref'], (c, w, id) =>
+      this.revokeRef(String(id))
+    )
+    this._i_reg.register(['_', 'hello'], (c, w, hello) => {
+      this.receiveHello(hello)
+      return (this.hello as unknown) as SerializableData
+    })
+    this._i_reg.register(['_', 'subscribe'], (c, w, id, topic) =>
+      this.addSubscription(String(id), topic)
+    )
+    this._i_reg.register(['_', 'unsubscribe'], (c, w, id) =>
+      this.removeSubscription(String(id))
+    )
+    if (_opts.discovery) {
+      this._i_reg.register(
+        ['_', 'describe'],
+        () =>
+          (describeEndpoints(this.reg.map, (address, func) =>
+            this.canList(address, func)
+          ) as unknown) as SerializableData
+      )
+    }
     this.on('rawmessage', () => this.resetTimeout())
     // Keep alives start getting sent immediately
     this.resetKeepAlive()
@@ -318,12 +828,81 @@ export class RpcChannel
     return {
       timeout,
       keep_alive_interval: this._opts.keep_alive_interval || timeout / 2,
-      await_first_msg: Boolean(this._opts.await_first_msg)
+      await_first_msg: Boolean(this._opts.await_first_msg),
+      high_water_mark: this._opts.high_water_mark,
+      generator_idle_timeout: this._opts.generator_idle_timeout,
+      codec: this.codec,
+      types: this._opts.types,
+      errors: this.errors,
+      error_stack: this._opts.error_stack || 'redact',
+      handshake: this.handshake_opts,
+      max_protocol_errors: this._opts.max_protocol_errors,
+      discovery: Boolean(this._opts.discovery),
+      idempotency_cache: this._opts.idempotency_cache
     }
   }
+  protected get handshake_opts(): RpcHandshakeOpts | undefined {
+    const { handshake } = this._opts
+    return handshake === true ? {} : handshake || undefined
+  }
+  get codec(): Codec {
+    return this._opts.codec || default_codec
+  }
+  get errors(): ErrorRegistry {
+    return this._opts.errors || default_errors
+  }
   get state(): RpcState {
     return this._state
   }
+  /**
+   * What this end sends during the handshake.
+   */
+  get hello(): RpcHello {
+    const opts = this.handshake_opts || {}
+    const hello: RpcHello = {
+      protocol: RPC_PROTOCOL_VERSION,
+      min_protocol: RPC_MIN_PROTOCOL_VERSION,
+      features: [...default_features, ...(opts.features || [])]
+    }
+    if (isDefined(this.codec.name)) {
+      hello.codec = this.codec.name
+    }
+    if (isDefined(opts.app_version)) {
+      hello.app_version = opts.app_version
+    }
+    return hello
+  }
+  /**
+   * What both ends agreed on, once the handshake has completed. This is
+   * `undefined` if the `handshake` option is not set.
+   */
+  get handshake(): RpcHandshake | undefined {
+    return this._handshake
+  }
+  /**
+   * The number of generators created with `generate` that have not finished.
+   */
+  get outgoing_streams(): number {
+    return this._outgoing_streams
+  }
+  /**
+   * The number of generators being run for remote `generate` calls.
+   */
+  get incoming_streams(): number {
+    return this._incoming_streams
+  }
+  /**
+   * The number of `Proxied` values sent that the remote end has not released.
+   */
+  get exported_refs(): number {
+    return this._exported_refs.size
+  }
+  /**
+   * The number of malformed messages that have been received.
+   */
+  get protocol_errors(): number {
+    return this._protocol_errors
+  }
 
   resetTimeout(): void {
     if (isDefined(this.active_timeout)) {
@@ -385,11 +964,17 @@ export class RpcChannel
   }
 
   async start(): Promise<void> {
+    const handshake = this.handshake_opts
     if (this._state !== RpcState.INACTIVE) {
+      // A handshake can no longer be completed, but the remote end may have
+      // already sent one that explains why the channel was closed
+      if (this._state === RpcState.CLOSED && handshake && !this._handshake) {
+        this.completeHandshake(handshake)
+      }
       return
     }
     if (this.opts.await_first_msg) {
-      await new Promise((r) => {
+      await new Promise<void>((r) => {
         const closefunc = () => {
           r()
           this.off('rawmessage', closefunc)
@@ -399,6 +984,10 @@ export class RpcChannel
         this.once('close', closefunc)
       })
     }
+    if (handshake) {
+      const failure = await this.sendHello(handshake)
+      this.completeHandshake(handshake, failure)
+    }
     // Double check that this wasn't closed while `await`ing
     if (this._state !== RpcState.INACTIVE) {
       return
@@ -406,6 +995,78 @@ export class RpcChannel
     this._stateChange(RpcState.ACTIVE)
     this.resetTimeout()
   }
+  /**
+   * Calls the remote end with this end's `RpcHello`, which replies with its
+   * own, unless the remote end's has already been received.
+   * @returns Why the remote end's hello was not received, if it wasn't
+   */
+  protected async sendHello(
+    opts: RpcHandshakeOpts
+  ): Promise<Error | undefined> {
+    if (isDefined(this._remote_hello) || this.state === RpcState.CLOSED) {
+      return undefined
+    }
+    const { timeout = 10000 } = opts
+    try {
+      const hello = await this.call(
+        ['_', 'hello'],
+        [(this.hello as unknown) as SerializableData],
+        { timeout }
+      )
+      this.receiveHello(hello)
+    } catch (e) {
+      // Versions from before the handshake do not have the endpoint
+      return e instanceof RpcNotFoundError
+        ? new RpcIncompatibleError('Remote end does not support handshakes')
+        : e
+    }
+    return undefined
+  }
+  protected receiveHello(hello: SerializedData): void {
+    if (!isDefined(this._remote_hello)) {
+      this._remote_hello = hello
+      this.emit('hello', hello)
+    }
+  }
+  /**
+   * Checks the remote end's `RpcHello`. If the handshake failed, this emits
+   * `handshakeerror` and closes the channel.
+   * @param failure Why the remote end's hello was not received
+   * @throws The reason the handshake failed
+   */
+  protected completeHandshake(opts: RpcHandshakeOpts, failure?: Error): void {
+    const remote = this._remote_hello
+    let error: Error
+    if (!isDefined(remote)) {
+      if (this.state === RpcState.CLOSED) {
+        error = new RpcChannelClosedError('Channel closed during handshake')
+      } else {
+        error = failure || new RpcTimeoutError('Handshake timed out')
+      }
+    } else if (!isHello(remote)) {
+      error = new RpcIncompatibleError('Invalid handshake')
+    } else {
+      try {
+        const result = negotiate(
+          this.hello,
+          (remote as unknown) as RpcHello,
+          opts
+        )
+        if (this.state !== RpcState.CLOSED) {
+          this._handshake = result
+          this.emit('handshake', result)
+          return
+        }
+        error = new RpcChannelClosedError('Channel closed during handshake')
+      } catch (e) {
+        error = e
+      }
+    }
+    this.emit('handshakeerror', error)
+    this.close()
+    throw error
+  }
+
   close(send = true): void {
     if (this.state === RpcState.CLOSED) {
       return
@@ -419,6 +1080,10 @@ export class RpcChannel
     }
     this._stateChange(RpcState.CLOSED)
     this._i_reg.clear()
+    this._exported_refs.clear()
+    this._subscriptions.clear()
+    this._topics.clear()
+    this._topic_ids.clear()
     if (this.active_timeout) {
       clearTimeout(this.active_timeout)
       delete this.active_timeout
@@ -455,6 +1120,84 @@ export class RpcChannel
     return this.default_policy
   }
 
+  /**
+   * Checks the arguments of calls to `address` against `schema` before they
+   * are sent. Calls with arguments that don't match fail immediately with the
+   * `RpcInvalidArgumentsError` that the remote end would send. Addresses may
+   * contain wildcards.
+   * @param schema The schema given to `EnforceArgumentSchema` or `undefined`
+   * to stop checking
+   * @param call_info How the remote function receives call information. See
+   * `RpcEndpointInfo`.
+   */
+  setArgumentSchema(
+    address: WildcardMultistringAddress,
+    schema: Schema | undefined,
+    call_info?: 'context'
+  ): void {
+    this._arg_schemas.put(
+      address,
+      isDefined(schema) ? { schema, call_info } : undefined
+    )
+  }
+  /**
+   * Fetches the functions registered on the remote end with `discover` and
+   * checks arguments against their schemas from now on.
+   *
+   * The schemas are compiled with Ajv, which generates code from them, and
+   * a malicious schema (such as one with a slow `pattern`) can hang the
+   * caller. Only use this with trusted remote ends, or limit which schemas
+   * are used with `filter`.
+   * @param filter If given, only schemas of endpoints for which this returns
+   * true are used
+   */
+  async fetchArgumentSchemas(
+    refresh = false,
+    filter?: (endpoint: RpcEndpointInfo) => boolean
+  ): Promise<void> {
+    const endpoints = await this.discover(refresh)
+    endpoints.forEach((endpoint) => {
+      const { address, schema, call_info } = endpoint
+      if (isDefined(schema) && (!filter || filter(endpoint))) {
+        this.setArgumentSchema(address, schema, call_info)
+      }
+    })
+  }
+  /**
+   * Checks arguments as the remote end will decode them, so values that are
+   * converted when sent (such as by `toRpcSerialized`) are checked as sent.
+   * @param args The encoded arguments
+   * @throws {RpcInvalidArgumentsError} If a schema is set for `to` and `args`
+   * don't match it
+   */
+  protected checkArguments(
+    to: MultistringAddress,
+    args: SerializedData[]
+  ): void {
+    // Internal addresses are never checked
+    if (to[0] === '_') {
+      return
+    }
+    const wc: string[] = []
+    const bound = this._arg_schemas.get(to, wc)
+    if (!bound || !isDefined(bound.schema)) {
+      return
+    }
+    const { codec } = this
+    const { types } = this._opts
+    let decoded = args.map((d) => codec.decode(d))
+    if (types) {
+      decoded = decoded.map((d) => types.revive(d))
+    }
+    // Stand-ins for what the remote function receives before the arguments
+    const prefix: unknown[] = bound.call_info === 'context' ? [] : [{}, wc]
+    try {
+      checkArguments(bound.schema as Schema, [...prefix, ...decoded])
+    } catch (e) {
+      throw toCallerError(e)
+    }
+  }
+
   /**
    * Sends data to a particular handle. Because there is no `await` for the
    * other side to process this, the `send` function should be used for pushing
@@ -464,45 +1207,383 @@ export class RpcChannel
    * @param args Data to send
    * @param return_addr The address of the return field. This is used for full
    * transactions, such as function calls
+   * @param return_type The type of value expected at `return_addr`
+   * @param opts Additional data to attach to the message
+   * @throws {RpcInvalidArgumentsError} If the arguments don't match a schema
+   * set with `setArgumentSchema`
    */
   send(
     to: MultistringAddress,
     args: SerializableData[] = [],
     return_addr?: MultistringAddress,
-    return_type: 'promise' | 'generator' = 'promise'
+    return_type: 'promise' | 'generator' = 'promise',
+    opts: RpcSendOpts = {}
   ): void {
+    const { codec } = this
+    const { types, error_stack } = this._opts
+    const { errors } = this
     const xfer: Transferable[] = []
-    const msg = {
+    const ref_ids: string[] = []
+    const proxy = (target: unknown): SerializedData => {
+      const token = this.exportRef(target)
+      ref_ids.push(((token as unknown) as RpcRefToken).rpc_ref)
+      return token
+    }
+    const msg: RpcMessage = {
       to,
-      args: args.map((d) => rpcSerialize(d, xfer)),
+      args: args.map((d) =>
+        codec.encode(d, xfer, proxy, { types, errors, error_stack })
+      ),
       return_addr,
       return_type
     }
+    try {
+      this.checkArguments(to, msg.args)
+    } catch (e) {
+      // The remote end will never release these
+      ref_ids.forEach((id) => this.revokeRef(id))
+      throw e
+    }
+    if (isDefined(opts.deadline)) {
+      msg.deadline = opts.deadline
+    }
+    if (opts.bidirectional) {
+      msg.bidirectional = true
+    }
+    if (isDefined(opts.credit)) {
+      msg.credit = opts.credit
+    }
+    if (ref_ids.length) {
+      msg.refs = true
+    }
+    if (isDefined(opts.idempotency_key)) {
+      msg.idempotency_key = opts.idempotency_key
+    }
     this.c_send(msg, xfer)
   }
 
+  /**
+   * Serves a value marked with `Proxied` until the remote end releases it.
+   * @returns The `RpcRefToken` to send in place of `target`
+   */
+  protected exportRef(target: unknown): SerializedData {
+    const id = `id${this.ref_seq_id++}`
+    const addr = ['_', 'ref', id]
+    if (typeof target === 'function') {
+      const func = target as (...args: SerializedData[]) => RpcResult
+      this._i_reg.register(addr, (c, w, ...args) => func(...args))
+      this._exported_refs.set(id, [addr])
+      return { rpc_ref: id }
+    }
+    const obj = target as {
+      [key: string]: (...a: SerializedData[]) => RpcResult
+    }
+    const methods = getMethodNames(target)
+    const addrs = methods.map((m) => {
+      const method_addr = [...addr, m]
+      this._i_reg.register(method_addr, (c, w, ...args) => obj[m](...args))
+      return method_addr
+    })
+    this._exported_refs.set(id, addrs)
+    return { rpc_ref: id, methods }
+  }
+  /**
+   * Stops serving a reference sent with `Proxied`.
+   * @param id The `rpc_ref` of the reference
+   */
+  protected revokeRef(id: string): void {
+    const addrs = this._exported_refs.get(id)
+    if (addrs) {
+      addrs.forEach((addr) => this._i_reg.unregister(addr))
+      this._exported_refs.delete(id)
+    }
+  }
+  /**
+   * Replaces all `RpcRefToken`s in received data with proxies.
+   */
+  protected importRefs(data: SerializedData): SerializedData {
+    if (Array.isArray(data)) {
+      return data.map((d) => this.importRefs(d))
+    }
+    // Only plain objects are searched so transferables are left alone
+    if (
+      data &&
+      typeof data === 'object' &&
+      (Object.getPrototypeOf(data) === Object.prototype ||
+        Object.getPrototypeOf(data) === null)
+    ) {
+      if (isRefToken(data)) {
+        return this.createRemoteRef((data as unknown) as RpcRefToken)
+      }
+      const obj = data as { [key: string]: SerializedData }
+      const robj: { [key: string]: SerializedData } = {}
+      Object.keys(obj).forEach((k) => {
+        robj[k] = this.importRefs(obj[k])
+      })
+      return robj
+    }
+    return data
+  }
+  protected createRemoteRef(token: RpcRefToken): SerializedData {
+    const addr = ['_', 'ref', token.rpc_ref]
+    let released = false
+    const finalizer_token = {}
+    const release = (): void => {
+      if (released) {
+        return
+      }
+      released = true
+      this._finalizer?.unregister(finalizer_token)
+      this.off('close', release)
+      // The remote end cleans up on its own when the channel closes
+      if (this.state === RpcState.CLOSED) {
+        return
+      }
+      try {
+        this.send(['_', 'unref'], [token.rpc_ref])
+      } catch (e) {
+        // The remote end will clean up when the channel closes
+      }
+    }
+    const invoke = (
+      to: MultistringAddress,
+      args: SerializableData[]
+    ): Promise<SerializedData> => {
+      if (released) {
+        return Promise.reject(new Error('Remote reference has been released'))
+      }
+      return this.call(to, args)
+    }
+
+    let ref: RemoteRef
+    if (token.methods) {
+      const obj: { [key: string]: unknown } = {}
+      token.methods.forEach((m) => {
+        obj[m] = (...args: SerializableData[]) => invoke([...addr, m], args)
+      })
+      ref = (obj as unknown) as RemoteRef
+    } else {
+      ref = (((...args: SerializableData[]) =>
+        invoke(addr, args)) as unknown) as RemoteRef
+    }
+    ref[RpcReleaseRef] = release
+    this.once('close', release)
+    // `release` must not reference `ref` or it will never be collected
+    this._finalizer?.register(ref, release, finalizer_token)
+    return (ref as unknown) as SerializedData
+  }
+
+  /**
+   * Tells the remote end to cancel the call with the given return address.
+   * This is a no-op if the message cannot be sent.
+   */
+  protected sendCancel(return_addr: MultistringAddress): void {
+    try {
+      this.send(['_', 'cancel', ...return_addr])
+    } catch (e) {
+      // The call has already been abandoned locally
+    }
+  }
+
+  /**
+   * Fetches the functions that can be called on the remote end. The remote
+   * end must have the `discovery` option set. The list is cached until
+   * `refresh` is set; failed requests are not cached.
+   */
+  discover(refresh = false): Promise<RpcEndpointInfo[]> {
+    if (!this._remote_endpoints || refresh) {
+      const promise = (this.call(['_', 'describe']) as unknown) as Promise<
+        RpcEndpointInfo[]
+      >
+      this._remote_endpoints = promise
+      promise.catch(() => {
+        if (this._remote_endpoints === promise) {
+          delete this._remote_endpoints
+        }
+      })
+    }
+    return this._remote_endpoints
+  }
+
+  /**
+   * Subscribes to events published by the remote end with `publish`.
+   * @param topic The topic to receive events for. Wildcard parts match any
+   * part of a published topic.
+   * @param handler Called with the topic and data of each event
+   * @returns A function that unsubscribes
+   * @throws {AccessDeniedError} If the remote end does not allow the
+   * subscription
+   */
+  async subscribe(
+    topic: WildcardMultistringAddress,
+    handler: RpcEventHandler
+  ): Promise<() => void> {
+    const id = `id${this.sub_seq_id++}`
+    const addr = ['_', 'event', id]
+    this._i_reg.register(addr, (c, w, event_topic, ...data) => {
+      handler(event_topic as MultistringAddress, ...data)
+    })
+    try {
+      await this.call(['_', 'subscribe'], [id, topic.map((p) => p || null)])
+    } catch (e) {
+      this._i_reg.unregister(addr)
+      throw e
+    }
+    let subscribed = true
+    return (): void => {
+      if (!subscribed) {
+        return
+      }
+      subscribed = false
+      this._i_reg.unregister(addr)
+      try {
+        this.send(['_', 'unsubscribe'], [id])
+      } catch (e) {
+        // The remote end forgets subscriptions when the channel closes
+      }
+    }
+  }
+  /**
+   * Sends an event to each of the remote end's subscriptions that match
+   * `topic`. The event is only sent if the access controller allows `topic`
+   * to be called with `data`.
+   * @returns The number of subscriptions the event was sent to
+   */
+  publish(topic: MultistringAddress, ...data: SerializableData[]): number {
+    const ids = new Set<string>()
+    this._topics.match(topic).forEach((set) => set.forEach((id) => ids.add(id)))
+    if (!ids.size) {
+      return 0
+    }
+    const policy = this.can(topic, { args: data, wc: [], channel: this })
+    if (isDefined(policy) && policy === AccessPolicy.DENY) {
+      return 0
+    }
+    ids.forEach((id) => this.send(['_', 'event', id], [topic, ...data]))
+    return ids.size
+  }
+  /**
+   * Checks if `func` should be listed by discovery. Like subscriptions,
+   * wildcard addresses are checked with the parts before the first wildcard.
+   */
+  protected canList(
+    address: WildcardMultistringAddress,
+    func: RpcFunction
+  ): boolean {
+    const wildcard = address.indexOf(undefined)
+    const prefix = (wildcard < 0
+      ? address
+      : address.slice(0, wildcard)) as MultistringAddress
+    const policy = this.can(prefix, { args: [], wc: [], channel: this, func })
+    return !(isDefined(policy) && policy === AccessPolicy.DENY)
+  }
+  /**
+   * Handles a subscription from the remote end. The access controller is
+   * checked with the parts of the topic before the first wildcard.
+   */
+  protected addSubscription(id: string, data: SerializedData): void {
+    if (
+      !Array.isArray(data) ||
+      !data.every((p) => p === null || (typeof p === 'string' && p))
+    ) {
+      throw new RpcInvalidArgumentsError('Invalid topic')
+    }
+    const topic = data as (string | null)[]
+    const wildcard = topic.indexOf(null)
+    const prefix = (wildcard < 0 ? topic : topic.slice(0, wildcard)) as string[]
+    const policy = this.can(prefix, { args: [], wc: [], channel: this })
+    if (isDefined(policy) && policy === AccessPolicy.DENY) {
+      throw new AccessDeniedError('Access denied')
+    }
+    this.removeSubscription(id)
+    const key = JSON.stringify(topic)
+    let ids = this._topic_ids.get(key)
+    if (!ids) {
+      ids = new Set()
+      this._topic_ids.set(key, ids)
+      this._topics.put(
+        topic.map((p) => p || undefined),
+        ids
+      )
+    }
+    ids.add(id)
+    this._subscriptions.set(id, topic)
+  }
+  protected removeSubscription(id: string): void {
+    const topic = this._subscriptions.get(id)
+    if (!topic) {
+      return
+    }
+    this._subscriptions.delete(id)
+    const key = JSON.stringify(topic)
+    const ids = this._topic_ids.get(key) as Set<string>
+    ids.delete(id)
+    if (!ids.size) {
+      this._topic_ids.delete(key)
+      this._topics.put(
+        topic.map((p) => p || undefined),
+        undefined
+      )
+    }
+  }
+
   /**
    * Calls a handle and awaits the return value.
    * @param to Handle to call
    * @param args Arguments to pass through
+   * @param opts Options such as a `timeout`, `deadline`, or abort `signal`
    * @returns A promise that will return when the call is completed. This will
    * throw an error with the message `Channel closed` if the channel is closed
-   * before a response is received.
+   * before a response is received, an `RpcTimeoutError` if the deadline
+   * passes first, or an `RpcCancelledError` if the signal is aborted.
    */
   call(
     to: MultistringAddress,
-    args: SerializableData[] = []
+    args: SerializableData[] = [],
+    opts: RpcCallOpts = {}
   ): Promise<SerializedData> {
     const return_addr = this._i_reg.nextSeqAddr()
+    let deadline = opts.deadline
+    if (isDefined(opts.timeout)) {
+      const timeout_deadline = Date.now() + (opts.timeout as number)
+      if (!isDefined(deadline) || timeout_deadline < (deadline as number)) {
+        deadline = timeout_deadline
+      }
+    }
+    const { signal } = opts
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RpcCancelledError('Call cancelled'))
+        return
+      }
+      let active_deadline: number | undefined
       const onDone = () => {
-        this.unregister(return_addr)
+        this._i_reg.unregister(return_addr)
         this.off('close', onChannelClose)
+        signal?.removeEventListener('abort', onAbort)
+        if (isDefined(active_deadline)) {
+          clearTimeout(active_deadline)
+          active_deadline = undefined
+        }
       }
       const onChannelClose = () => {
         onDone()
-        reject(new Error('Channel closed'))
+        reject(new RpcChannelClosedError('Channel closed'))
+      }
+      const onAbort = () => {
+        onDone()
+        this.sendCancel(return_addr)
+        reject(new RpcCancelledError('Call cancelled'))
       }
+      if (isDefined(deadline)) {
+        active_deadline = setTimeout(() => {
+          active_deadline = undefined
+          onDone()
+          this.sendCancel(return_addr)
+          reject(new RpcTimeoutError('Call timed out'))
+        }, Math.max((deadline as number) - Date.now(), 0))
+      }
+      signal?.addEventListener('abort', onAbort)
       this._i_reg.register(return_addr, (channel, wc, data, error) => {
         if (channel !== this) {
           reject(
@@ -511,50 +1592,133 @@ export class RpcChannel
             )
           )
         } else if (error) {
-          if ((error as { name: string }).name) {
-            reject(Object.assign(new ForwardedError(), error))
-          } else {
-            reject(error)
-          }
+          reject(this.reviveError(error))
         } else {
           resolve(data as SerializedData)
         }
         onDone()
       })
       this.once('close', onChannelClose)
-      this.send(to, args, return_addr)
+      try {
+        this.send(to, args, return_addr, 'promise', {
+          deadline,
+          idempotency_key: opts.idempotency_key
+        })
+      } catch (e) {
+        onDone()
+        reject(e)
+      }
     })
   }
 
   /**
-   * Returns an async generator. This supports only `yield`ing values: ATM,
-   * returned values and `yield`ed arguments are not supported. **You also must
-   * manually deallocate the generator once you're done!** Yes, manual memory
-   * management. If you don't manually deallocate, the listeners on both ends
-   * will remain allocated leading to memory leaks. To deallocate, call the
-   * `return` or `throw` functions on the generator.
+   * Returns an async generator. The value `return`ed by the remote generator
+   * is the value of the final `IteratorResult`. Values passed to `next` are
+   * only sent to the remote generator if `bidirectional` is set.
+   *
+   * The generator is deallocated on both ends once it finishes, when `return`
+   * or `throw` is called (as `for await` does when exiting early), or when the
+   * `signal` is aborted. Aborting the signal makes the local generator throw
+   * an `RpcCancelledError`. Generators that are dropped without finishing are
+   * deallocated when garbage collected (where `FinalizationRegistry` is
+   * supported) or once `idle_timeout` passes. If the channel closes first, the
+   * generator finishes and `wasInterrupted` returns `true` for it.
    */
   generate(
     to: MultistringAddress,
-    args: SerializableData[] = []
-  ): AsyncGenerator<SerializedData, void, void> {
+    args: SerializableData[] = [],
+    opts: RpcGenerateOpts = {}
+  ): AsyncGenerator<SerializedData, SerializedData, SerializableData> {
+    const { signal, bidirectional, deadline, idempotency_key } = opts
+    const hwm = isDefined(opts.high_water_mark)
+      ? opts.high_water_mark
+      : this.opts.high_water_mark
+    if (isDefined(hwm) && !((hwm as number) >= 1)) {
+      throw new RangeError('High water mark must be at least 1')
+    }
+    if (signal?.aborted) {
+      return (async function* () {
+        throw new RpcCancelledError('Generator cancelled')
+      })()
+    }
     const return_addr = this._i_reg.nextSeqAddr()
+    const nextgen_addr = ['_', 'nextgen', ...return_addr]
 
-    this.send(to, args, return_addr, 'generator')
+    try {
+      this.send(to, args, return_addr, 'generator', {
+        bidirectional,
+        credit: hwm,
+        deadline,
+        idempotency_key
+      })
+    } catch (e) {
+      return (async function* () {
+        throw e
+      })()
+    }
 
     // Now, create the generator. If this wasn't done, the above code would
     // only be run when `next` was called
     const buffer: [SerializedData, SerializedData | Error, boolean][] = []
     let onNewData: (() => void) | undefined
 
-    const onDone = () => {
-      this._i_reg.unregister(return_addr)
-      this.off('close', onChannelClose)
-    }
     const onChannelClose = () => {
+      stream.interrupted = true
       onDone()
       buffer.push([undefined, undefined, true])
+      if (onNewData) {
+        onNewData()
+      }
+    }
+    const onAbort = () => {
+      stop()
+      buffer.push([
+        undefined,
+        new RpcCancelledError('Generator cancelled'),
+        true
+      ])
+      if (onNewData) {
+        onNewData()
+      }
+    }
+    // Everything needed to clean up is kept apart from the generator so that
+    // the finalizer does not keep the generator alive
+    const stream: OutgoingStream = {
+      return_addr,
+      finished: false,
+      interrupted: false,
+      onChannelClose,
+      signal,
+      onAbort
+    }
+    this._outgoing_streams++
+    const onDone = (): void => this.finishStream(stream)
+    const stop = (): void => this.stopStream(stream)
+
+    const idle_timeout = isDefined(opts.idle_timeout)
+      ? opts.idle_timeout
+      : this.opts.generator_idle_timeout
+    const clearIdle = (): void => {
+      if (isDefined(stream.idle_timer)) {
+        clearTimeout(stream.idle_timer)
+        stream.idle_timer = undefined
+      }
     }
+    const startIdle = (): void => {
+      if (idle_timeout && !stream.finished) {
+        stream.idle_timer = setTimeout(() => {
+          stream.idle_timer = undefined
+          stop()
+          buffer.length = 0
+          buffer.push([
+            undefined,
+            new RpcTimeoutError('Generator was idle for too long'),
+            true
+          ])
+        }, idle_timeout)
+      }
+    }
+    startIdle()
     this._i_reg.register(return_addr, (channel, wc, data, error, done) => {
       if (channel !== this) {
         onDone()
@@ -566,18 +1730,12 @@ export class RpcChannel
           true
         ])
       } else {
-        if (error) {
+        // Once the remote generator is done, closing the channel can't
+        // interrupt it
+        if (error || done) {
           onDone()
         }
-        if ((error as { name: string })?.name) {
-          buffer.push([
-            data,
-            Object.assign(new ForwardedError(), error),
-            Boolean(done)
-          ])
-        } else {
-          buffer.push([data, error, Boolean(done)])
-        }
+        buffer.push([data, this.reviveError(error), Boolean(done)])
       }
       if (onNewData) {
         onNewData()
@@ -585,18 +1743,33 @@ export class RpcChannel
     })
 
     this.once('close', onChannelClose)
+    signal?.addEventListener('abort', onAbort)
 
     const getNext = async (): Promise<
       [SerializedData, SerializedData | Error, boolean]
     > => {
       if (!buffer.length) {
-        await new Promise((res) => (onNewData = res))
+        await new Promise<void>((res) => (onNewData = res))
         onNewData = undefined
       }
       return buffer.shift() as [SerializedData, SerializedData | Error, boolean]
     }
 
+    // Credit is granted in batches to avoid sending a message for every value
+    let ungranted = 0
+    const requestNext = (value: SerializableData): void => {
+      if (bidirectional) {
+        this.send(nextgen_addr, [value])
+      } else if (isDefined(hwm)) {
+        if (++ungranted >= Math.ceil((hwm as number) / 2)) {
+          this.send(nextgen_addr, [undefined, ungranted])
+          ungranted = 0
+        }
+      }
+    }
+
     const gen = (async function* () {
+      clearIdle()
       while (true) {
         const [d, e, c] = await getNext()
         if (e) {
@@ -604,31 +1777,69 @@ export class RpcChannel
           throw e
         } else if (c) {
           onDone()
-          return
+          return d
         } else {
-          yield d
+          startIdle()
+          const value = yield d
+          clearIdle()
+          requestNext(value)
         }
       }
     })()
 
-    const stop = (): void => {
-      this.send(['_', 'stopgen', ...return_addr], [])
-      onDone()
+    // No function in this scope may reference `gen` since they all share
+    // their closure with the finalizer's callback
+    this._finalizer?.register(gen, this.stopStream.bind(this, stream), stream)
+    return Object.defineProperty(
+      stopOnReturn(gen, stop),
+      RpcGeneratorInterrupted,
+      { get: () => stream.interrupted }
+    )
+  }
+
+  /**
+   * Turns an error received at a return address into an `Error`. Errors made
+   * by this end, such as when a response cannot be decoded, are kept as is.
+   */
+  protected reviveError(error: SerializedData | Error): SerializedData | Error {
+    if (error instanceof Error) {
+      return error
     }
+    return isErrorData(error) ? this.errors.revive(error) : error
+  }
 
-    const original_return = gen.return
-    const original_throw = gen.throw
-    return Object.assign(gen, {
-      return(): Promise<IteratorResult<SerializableData, void>> {
-        stop()
-        return original_return.apply(gen, [undefined as void])
-      },
-      // eslint-disable-next-line
-      throw(e: any): Promise<IteratorResult<SerializableData, void>> {
-        stop()
-        return original_throw.apply(gen, [e])
+  /**
+   * Removes the handlers of a generator returned by `generate`.
+   */
+  protected finishStream(stream: OutgoingStream): void {
+    if (stream.finished) {
+      return
+    }
+    stream.finished = true
+    this._outgoing_streams--
+    if (isDefined(stream.idle_timer)) {
+      clearTimeout(stream.idle_timer)
+      stream.idle_timer = undefined
+    }
+    this._finalizer?.unregister(stream)
+    this._i_reg.unregister(stream.return_addr)
+    this.off('close', stream.onChannelClose)
+    stream.signal?.removeEventListener('abort', stream.onAbort)
+  }
+
+  /**
+   * Tells the remote end to stop a generator returned by `generate` and
+   * removes its handlers.
+   */
+  protected stopStream(stream: OutgoingStream): void {
+    if (!stream.finished) {
+      try {
+        this.send(['_', 'stopgen', ...stream.return_addr], [])
+      } catch (e) {
+        // The remote end will clean up when the channel closes
       }
-    })
+    }
+    this.finishStream(stream)
   }
 
   get call_obj(): RpcAccessor {
@@ -639,7 +1850,7 @@ export class RpcChannel
         args: SerializableData[]
       ) => Promise<SerializedData>
     ): RpcAccessor {
-      const dummyFunction = () => new Promise((r) => r())
+      const dummyFunction = () => new Promise<void>((r) => r())
       return new Proxy(dummyFunction as RpcAccessor, {
         apply(func, target, args: SerializableData[]) {
           return oncall(addr, args)
@@ -655,6 +1866,33 @@ export class RpcChannel
     return createRpcAccessor([], (addr, args) => this.call(addr, args))
   }
 
+  /**
+   * Drops a malformed message and closes the channel if there have been too
+   * many.
+   */
+  protected rejectMessage(val: unknown, errors: Ajv.ErrorObject[]): void {
+    const error = new RpcProtocolError(
+      `Invalid message: ${ajv.errorsText(errors, {
+        dataVar: 'message'
+      })}`,
+      [...errors]
+    )
+    this.protocolError(error, val)
+  }
+
+  /**
+   * Emits `protocolerror` and closes the channel if there have been more than
+   * `max_protocol_errors`.
+   */
+  protected protocolError(error: RpcProtocolError, val: unknown): void {
+    this._protocol_errors++
+    this.emit('protocolerror', error, val)
+    const max = this._opts.max_protocol_errors
+    if (isDefined(max) && this._protocol_errors >= (max as number)) {
+      this.close()
+    }
+  }
+
   /**
    * Call this when a new message is recieved to process it.
    * @param val Incoming message
@@ -663,35 +1901,118 @@ export class RpcChannel
     if (this.state === RpcState.CLOSED) {
       return
     }
+    if (!validateMessage(val)) {
+      this.rejectMessage(val, validateMessage.errors || [])
+      return
+    }
     this.emit('rawmessage', val)
 
-    type ItType = AsyncGenerator<SerializableData, void, void>
+    // If the arguments can't be decoded, the call fails after the return
+    // handler is set up below
+    let decode_error: Error | undefined
+    try {
+      const { codec } = this
+      let args = val.args.map((d) => codec.decode(d))
+      if (val.refs) {
+        args = args.map((d) => this.importRefs(d))
+      }
+      const { types } = this._opts
+      if (types) {
+        args = args.map((d) => types.revive(d))
+      }
+      if (args.some((d, i) => d !== val.args[i])) {
+        val = { ...val, args }
+      }
+    } catch (e) {
+      decode_error = e
+      const error = new RpcProtocolError(
+        `Could not decode message: ${e.message}`
+      )
+      this.protocolError(Object.assign(error, { cause: e }), val)
+      // Too many protocol errors close the channel
+      if ((this.state as RpcState) === RpcState.CLOSED) {
+        return
+      }
+    }
+
+    const wc: string[] = []
+    const func = this._i_reg.map.get(val.to, wc) || this.reg.map.get(val.to, wc)
+
+    const info = new RpcCallContext(this, wc, val)
+    // Lets the caller abort the call. This is replaced by generators so that
+    // cancelling also stops iteration.
+    let onCancel = (): void => {
+      finish()
+      info.cancel()
+    }
+    let cancellable = false
+    const cancel_addr = ['_', 'cancel', ...(val.return_addr || [])]
+    const finish = (): void => {
+      if (cancellable) {
+        cancellable = false
+        this._i_reg.unregister(cancel_addr)
+      }
+    }
+
+    type ItType = AsyncGenerator<
+      SerializableData,
+      SerializableData,
+      SerializedData
+    >
+    // eslint-disable-next-line
+    const isGenerator = (data: any): boolean => {
+      return (
+        data &&
+        (data as ItType)[Symbol.asyncIterator] &&
+        typeof (data as ItType).next === 'function'
+      )
+    }
     const maybeReturn = (
       data?: SerializableData | Promise<SerializableData> | ItType,
       error?: SerializableData
     ): void => {
-      // eslint-disable-next-line
-      const isGenerator = (data: any): boolean => {
-        return (
-          data &&
-          (data as ItType)[Symbol.asyncIterator] &&
-          typeof (data as ItType).next === 'function'
-        )
-      }
       if (val.return_addr) {
         const addr = val.return_addr
 
         switch (val.return_type) {
           case 'generator':
             if (error) {
-              this.send(addr, [undefined, error, true])
+              this.send(addr, [undefined, toCallerError(error), true])
+              finish()
               return
             }
 
             let done = false
+            // Only used if the caller sets `credit` or `bidirectional`
+            let credit = isDefined(val.credit)
+              ? (val.credit as number)
+              : val.bidirectional
+              ? 1
+              : Infinity
+            const pull = credit !== Infinity
+            const next_values: SerializedData[] = []
+            let onCredit: (() => void) | undefined
+            let streaming = false
+            const onClose = (): void => onCancel()
             const setDone = (): void => {
               done = true
-              this.unregister(['_', 'stopgen', ...addr])
+              if (streaming) {
+                streaming = false
+                this._incoming_streams--
+                this.off('close', onClose)
+              }
+              this._i_reg.unregister(['_', 'stopgen', ...addr])
+              if (pull) {
+                this._i_reg.unregister(['_', 'nextgen', ...addr])
+              }
+              finish()
+              if (onCredit) {
+                onCredit()
+              }
+            }
+            onCancel = (): void => {
+              setDone()
+              info.cancel()
             }
             const send = (
               a: MultistringAddress,
@@ -700,14 +2021,36 @@ export class RpcChannel
               set_done = false
             ): void => {
               if (!done) {
-                this.send(a, [d, e, set_done || Boolean(e)])
+                try {
+                  this.send(a, [d, toCallerError(e), set_done || Boolean(e)])
+                } catch (err) {
+                  e = new RpcInternalError('Could not send yielded value')
+                  try {
+                    this.send(a, [undefined, e, true])
+                  } catch (err) {
+                    // The caller will find out when the channel closes
+                  }
+                }
               }
               if (e || set_done) {
                 setDone()
               }
             }
             const registerStopHandler = (): void => {
-              this._i_reg.register(['_', 'stopgen', ...addr], setDone)
+              streaming = true
+              this._incoming_streams++
+              this.once('close', onClose)
+              this._i_reg.register(['_', 'stopgen', ...addr], onCancel)
+              if (pull) {
+                const nextgen_addr = ['_', 'nextgen', ...addr]
+                this._i_reg.register(nextgen_addr, (c, w, v, n = 1) => {
+                  next_values.push(v)
+                  credit += Math.max(Number(n) || 0, 0)
+                  if (onCredit) {
+                    onCredit()
+                  }
+                })
+              }
             }
 
             if (data instanceof Promise) {
@@ -720,15 +2063,26 @@ export class RpcChannel
               )
             } else if (isGenerator(data)) {
               registerStopHandler()
+              const it = data as ItType
+              // Assume the caller is gone if it never grants more credit
+              const idle_timeout = this.opts.generator_idle_timeout
               ;(async function () {
                 try {
-                  for await (const d of data as ItType) {
-                    send(addr, d, undefined, false)
-                    if (done) {
-                      return
+                  while (!done) {
+                    if (credit <= 0) {
+                      const timer = idle_timeout
+                        ? setTimeout(onCancel, idle_timeout)
+                        : undefined
+                      await new Promise<void>((r) => (onCredit = r))
+                      onCredit = undefined
+                      clearTimeout(timer)
+                      continue
                     }
+                    credit--
+                    const r = await it.next(next_values.shift())
+                    send(addr, r.value, undefined, Boolean(r.done))
                   }
-                  send(addr, undefined, undefined, true)
+                  await it.return(undefined)
                 } catch (e) {
                   send(addr, undefined, e)
                 }
@@ -740,15 +2094,31 @@ export class RpcChannel
             return
           default:
           case 'promise':
+            // The caller is no longer listening if it cancelled the call
+            const respond = (d: SerializableData, e?: SerializableData) => {
+              finish()
+              if (!info.cancelled) {
+                try {
+                  this.send(addr, [d, toCallerError(e)])
+                } catch (err) {
+                  const error = new RpcInternalError('Could not send response')
+                  try {
+                    this.send(addr, [undefined, error])
+                  } catch (err) {
+                    // The caller will find out when the channel closes
+                  }
+                }
+              }
+            }
             if (error) {
-              this.send(addr, [undefined, error])
+              respond(undefined, error)
               return
             }
 
             const sendPromise = (data: Promise<SerializableData>): void => {
               data.then(
-                (d) => this.send(addr, [d, undefined]),
-                (e) => this.send(addr, [undefined, e])
+                (d) => respond(d, undefined),
+                (e) => respond(undefined, e)
               )
             }
             if (data instanceof Promise) {
@@ -763,15 +2133,29 @@ export class RpcChannel
                 )
               )
             } else {
-              this.send(addr, [data as SerializableData, undefined])
+              respond(data as SerializableData, undefined)
             }
             return
         }
       }
     }
 
-    const wc: string[] = []
-    const func = this._i_reg.map.get(val.to, wc) || this.reg.map.get(val.to, wc)
+    if (decode_error) {
+      const error = new RpcInvalidArgumentsError(decode_error.message)
+      Object.assign(error, { cause: decode_error })
+      if (
+        func &&
+        !val.return_addr &&
+        val.to[0] === '_' &&
+        val.to[1] === 'ret'
+      ) {
+        // A response that can't be decoded fails the call waiting for it
+        func(this, wc, undefined, (error as unknown) as SerializedData, true)
+      } else {
+        maybeReturn(undefined, error)
+      }
+      return
+    }
 
     const security_policy = this.can(val.to, {
       args: val.args,
@@ -788,17 +2172,66 @@ export class RpcChannel
     }
 
     if (!func) {
-      maybeReturn(undefined, new TypeError('Function at address is undefined'))
+      maybeReturn(
+        undefined,
+        new RpcNotFoundError('Function at address is undefined')
+      )
       return
     }
 
+    if (info.expired) {
+      maybeReturn(undefined, new RpcTimeoutError('Deadline exceeded'))
+      return
+    }
+
+    if (val.return_addr) {
+      cancellable = true
+      this._i_reg.register(cancel_addr, () => onCancel())
+    }
+
+    const cache = this._opts.idempotency_cache
+    const key =
+      val.return_type !== 'generator' ? val.idempotency_key : undefined
+    if (cache && isDefined(key)) {
+      const result = cache.get(val.to, key as string)
+      if (result) {
+        maybeReturn(result)
+        return
+      }
+    }
+
     let data: RpcResult
     try {
-      data = (func as RpcFunction)(this, wc, ...val.args)
+      if (func[RpcWantsCallContext]) {
+        data = ((func as unknown) as RpcContextFunction)(info, ...val.args)
+      } else {
+        data = (func as RpcFunction)(this, wc, ...val.args)
+      }
+      const schemas = func[RpcResultSchema]
+      if (schemas && schemas.enforce) {
+        data = checkResult(data, schemas)
+      }
     } catch (e) {
+      if (cache && isDefined(key) && !info.cancelled && !info.expired) {
+        cache.set(val.to, key as string, Promise.reject(e))
+      }
       maybeReturn(undefined, e)
       return
     }
+    if (cache && isDefined(key) && !isGenerator(data)) {
+      const result = Promise.resolve(
+        data as SerializableData | Promise<SerializableData>
+      )
+      cache.set(val.to, key as string, result)
+      // A call that was cancelled or timed out may be retried, so whatever it
+      // settled with is not kept
+      const evict = () => {
+        if (info.cancelled || info.expired) {
+          cache.delete(val.to, key as string)
+        }
+      }
+      result.then(evict, evict)
+    }
     maybeReturn(data)
   }
 }
@@ -0,0 +1,300 @@
+/**
+ * Delivers messages exactly once and in order over point-to-point transports
+ * that may drop, duplicate, or reorder them, such as a relay.
+ * @author Nathan Pennie <kb1rd@kb1rd.net>
+ */
+/** */
+
+import { Codec } from './codec'
+import { RpcMessage } from './registry'
+import { Transport } from './transport'
+import { isDefined, randomId } from './utils'
+
+export interface ReliableTransportOpts {
+  /**
+   * Milliseconds to wait for an acknowledgement before sending a message
+   * again. The wait doubles each time the same message is sent again.
+   * Defaults to 1000.
+   */
+  retransmit_timeout?: number
+  /**
+   * The longest wait between sending a message again. Defaults to 30000.
+   */
+  max_retransmit_timeout?: number
+  /**
+   * Closes the transport once a message has been sent again this many times
+   * without being acknowledged. Defaults to 10. Set to `Infinity` to send
+   * messages forever.
+   */
+  max_retransmits?: number
+  /**
+   * The most sent messages that are kept until they are acknowledged. Sending
+   * more throws until some are acknowledged. This should not be more than
+   * the remote end's `window`. Defaults to 1000.
+   */
+  max_unacked?: number
+  /**
+   * Milliseconds to wait before acknowledging received messages. Messages
+   * sent in the meantime carry the acknowledgement instead. Defaults to 20.
+   */
+  ack_delay?: number
+  /**
+   * The most messages received ahead of a missing one that are kept. Messages
+   * further ahead are dropped and must be sent again. Defaults to 1000.
+   */
+  window?: number
+}
+
+interface Pending {
+  msg: RpcMessage
+  /**
+   * When to send the message again
+   */
+  due: number
+  retransmits: number
+}
+
+/**
+ * Wraps another transport to make it reliable. Each message is numbered with
+ * a `seq` and kept until the remote end acknowledges it, and sent again if it
+ * isn't acknowledged in time. Received messages are acknowledged, duplicates
+ * are dropped, and messages that arrive early are held until the ones before
+ * them arrive. Both ends must use a `ReliableTransport`, and the transport must
+ * only connect those two ends.
+ *
+ * Each end also sends a random `session`, and the `session` of the remote end
+ * once it is known. If the remote end restarts, its numbering starts over, so
+ * the transport closes once a different `session` is received. Messages meant
+ * for an earlier session of this end are ignored, but are answered so that
+ * the remote end finds out about the restart.
+ *
+ * Since messages may be sent more than once, transferables are only
+ * transferred the first time and should not be used.
+ */
+export class ReliableTransport implements Transport {
+  readonly session = randomId()
+  protected remote_session?: string
+  protected next_seq = 0
+  protected readonly unacked = new Map<number, Pending>()
+  protected retransmit_timer?: number
+  /**
+   * When `retransmit_timer` fires
+   */
+  protected retransmit_at?: number
+  /**
+   * The `seq` of the next message to deliver
+   */
+  protected expected = 0
+  protected readonly early = new Map<number, RpcMessage>()
+  protected ack_timer?: number
+  protected onclose?: () => void
+  protected closed = false
+
+  constructor(
+    readonly transport: Transport,
+    protected readonly opts: ReliableTransportOpts = {}
+  ) {}
+
+  get codec(): Codec | undefined {
+    return this.transport.codec
+  }
+  /**
+   * The number of sent messages that haven't been acknowledged
+   */
+  get unacknowledged(): number {
+    return this.unacked.size
+  }
+
+  send(msg: RpcMessage, xfer: Transferable[]): void {
+    if (this.closed) {
+      throw new Error('Transport closed')
+    }
+    const { max_unacked = 1000 } = this.opts
+    if (this.unacked.size >= max_unacked) {
+      throw new Error('Too many unacknowledged messages')
+    }
+    const seq = this.next_seq++
+    const pending: Pending = {
+      msg: { ...msg, seq },
+      due: Date.now() + this.retransmitDelay(0),
+      retransmits: 0
+    }
+    this.unacked.set(seq, pending)
+    this.transmit(pending.msg, xfer)
+    this.retransmitLater()
+  }
+  listen(onmessage: (msg: RpcMessage) => void, onclose: () => void): void {
+    this.onclose = onclose
+    this.transport.listen(
+      (msg) => this.receive(msg, onmessage),
+      () => {
+        if (!this.closed) {
+          this.close()
+          onclose()
+        }
+      }
+    )
+  }
+  close(): void {
+    if (this.closed) {
+      return
+    }
+    this.closed = true
+    this.unacked.clear()
+    this.retransmitLater()
+    this.early.clear()
+    if (isDefined(this.ack_timer)) {
+      clearTimeout(this.ack_timer)
+      delete this.ack_timer
+    }
+    this.transport.close()
+  }
+
+  /**
+   * Sends a message with the latest acknowledgement.
+   */
+  protected transmit(msg: RpcMessage, xfer: Transferable[] = []): void {
+    if (isDefined(this.ack_timer)) {
+      clearTimeout(this.ack_timer)
+      delete this.ack_timer
+    }
+    const sent: RpcMessage = { ...msg, ack: this.expected }
+    sent.session = this.session
+    if (isDefined(this.remote_session)) {
+      sent.peer = this.remote_session
+    }
+    this.transport.send(sent, xfer)
+  }
+  /**
+   * How long to wait for an acknowledgement after a message has been sent
+   * again `retransmits` times
+   */
+  protected retransmitDelay(retransmits: number): number {
+    const timeout = this.opts.retransmit_timeout || 1000
+    const { max_retransmit_timeout = 30000 } = this.opts
+    return Math.min(
+      timeout * 2 ** retransmits,
+      Math.max(timeout, max_retransmit_timeout)
+    )
+  }
+  /**
+   * Sets a single timer for the next message that is due to be sent again.
+   */
+  protected retransmitLater(): void {
+    let due = Infinity
+    this.unacked.forEach((pending) => (due = Math.min(due, pending.due)))
+    if (due === this.retransmit_at) {
+      return
+    }
+    if (isDefined(this.retransmit_timer)) {
+      clearTimeout(this.retransmit_timer)
+      delete this.retransmit_timer
+      delete this.retransmit_at
+    }
+    if (due === Infinity) {
+      return
+    }
+    this.retransmit_at = due
+    this.retransmit_timer = setTimeout(() => {
+      delete this.retransmit_timer
+      delete this.retransmit_at
+      this.retransmit()
+    }, Math.max(due - Date.now(), 0))
+  }
+  protected retransmit(): void {
+    const now = Date.now()
+    const { max_retransmits = 10 } = this.opts
+    for (const pending of this.unacked.values()) {
+      if (pending.due > now) {
+        continue
+      }
+      if (pending.retransmits >= max_retransmits) {
+        this.close()
+        if (this.onclose) {
+          this.onclose()
+        }
+        return
+      }
+      pending.retransmits++
+      pending.due = now + this.retransmitDelay(pending.retransmits)
+      this.transmit(pending.msg)
+    }
+    this.retransmitLater()
+  }
+  protected sendAckLater(): void {
+    if (isDefined(this.ack_timer)) {
+      return
+    }
+    const { ack_delay = 20 } = this.opts
+    this.ack_timer = setTimeout(() => {
+      delete this.ack_timer
+      if (!this.closed) {
+        this.transmit({ to: ['_', 'ack'], args: [] })
+      }
+    }, ack_delay)
+  }
+
+  protected receive(
+    msg: RpcMessage,
+    onmessage: (msg: RpcMessage) => void
+  ): void {
+    if (this.closed) {
+      return
+    }
+    if (isDefined(msg.peer) && msg.peer !== this.session) {
+      // Sent to an earlier session of this end. Answering tells the remote
+      // end that this end restarted.
+      this.sendAckLater()
+      return
+    }
+    if (isDefined(msg.session)) {
+      if (!isDefined(this.remote_session)) {
+        this.remote_session = msg.session
+      } else if (msg.session !== this.remote_session) {
+        // The remote end restarted, so its messages are numbered from 0 again
+        this.close()
+        if (this.onclose) {
+          this.onclose()
+        }
+        return
+      }
+    }
+    if (Number.isInteger(msg.ack)) {
+      this.unacked.forEach((pending, seq) => {
+        if (seq < (msg.ack as number)) {
+          this.unacked.delete(seq)
+        }
+      })
+      this.retransmitLater()
+    }
+    const { seq } = msg
+    if (!Number.isInteger(seq)) {
+      // Only an acknowledgement
+      return
+    }
+    // Duplicates are still acknowledged in case the last one was lost
+    this.sendAckLater()
+    const { window = 1000 } = this.opts
+    if (
+      (seq as number) < this.expected ||
+      (seq as number) >= this.expected + window ||
+      this.early.has(seq as number)
+    ) {
+      return
+    }
+    this.early.set(seq as number, msg)
+    let next: RpcMessage | undefined
+    while ((next = this.early.get(this.expected))) {
+      this.early.delete(this.expected++)
+      const delivered = { ...next }
+      delete delivered.seq
+      delete delivered.ack
+      delete delivered.session
+      delete delivered.peer
+      onmessage(delivered)
+      if (this.closed) {
+        return
+      }
+    }
+  }
+}
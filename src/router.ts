@@ -0,0 +1,188 @@
+/**
+ * Connects more than two peers. An `RpcRouter` owns one `RpcChannel` per peer
+ * and relays calls from one peer to another.
+ * @author Nathan Pennie <kb1rd@kb1rd.net>
+ */
+/** */
+
+import EventEmitter from 'eventemitter3'
+
+import { MultistringAddress, WildcardMultistringAddress } from './addrmap'
+import { RpcChannel, RpcHandlerRegistry, UseCallContext } from './registry'
+import { RpcCallContext } from './context'
+import { RpcNotFoundError } from './errors'
+import { SerializableData, SerializedData } from './serializer'
+
+export interface RpcRouterOpts {
+  /**
+   * Calls to `[peer_prefix, id, ...address]` are relayed to `address` on the
+   * peer `id`. Defaults to `'peer'`.
+   */
+  peer_prefix?: string
+}
+
+interface Route {
+  prefix: WildcardMultistringAddress
+  id: string
+}
+
+/**
+ * Relays calls between peers. Every connected channel uses the router's
+ * `reg`, so functions registered with the router can be called by all peers.
+ * Calls to anything else are relayed if they match a route:
+ * * Addresses starting with a prefix given to `route` are sent, unchanged, to
+ * the peer that the prefix was routed to. The longest matching prefix wins.
+ * * Addresses starting with `['peer', id]` are sent to the peer `id` with the
+ * first two parts removed.
+ *
+ * Relayed calls are made with `call` and `generate`, so return values,
+ * generator streams, deadlines, cancellation, and errors all pass through the
+ * router. Each hop is access controlled by the `access_controller` of the
+ * channel that the call arrives on. Values marked with `Proxied` cannot be
+ * relayed. Routes must not form a loop between routers.
+ */
+export class RpcRouter extends EventEmitter {
+  readonly reg: RpcHandlerRegistry = new RpcHandlerRegistry()
+  protected readonly peers = new Map<string, RpcChannel>()
+  protected readonly routes: Route[] = []
+  protected readonly peer_prefix: string
+
+  constructor(opts: RpcRouterOpts = {}) {
+    super()
+    this.peer_prefix = opts.peer_prefix || 'peer'
+    // Anything not registered locally reaches the default function
+    this.reg.register(
+      [],
+      UseCallContext((ctx, ...args) => this.relay(ctx, args))
+    )
+  }
+
+  /**
+   * The IDs of the connected peers
+   */
+  get ids(): string[] {
+    return [...this.peers.keys()]
+  }
+  get(id: string): RpcChannel | undefined {
+    return this.peers.get(id)
+  }
+
+  /**
+   * Adds a peer. The channel's `reg` is replaced with the router's and the
+   * peer is removed when the channel closes.
+   * @throws If `id` is already connected
+   */
+  connect(id: string, channel: RpcChannel): void {
+    if (this.peers.has(id)) {
+      throw new Error(`Peer ${id} is already connected`)
+    }
+    channel.reg = this.reg
+    this.peers.set(id, channel)
+    channel.once('close', () => {
+      if (this.peers.get(id) === channel) {
+        this.disconnect(id)
+      }
+    })
+    this.emit('connect', id, channel)
+  }
+  /**
+   * Removes a peer and any routes to it. The channel is not closed.
+   * @returns If the peer was connected
+   */
+  disconnect(id: string): boolean {
+    if (!this.peers.delete(id)) {
+      return false
+    }
+    for (let i = this.routes.length - 1; i >= 0; i--) {
+      if (this.routes[i].id === id) {
+        this.routes.splice(i, 1)
+      }
+    }
+    this.emit('disconnect', id)
+    return true
+  }
+
+  /**
+   * Relays calls to addresses starting with `prefix` to the peer `id`.
+   * Wildcards in `prefix` match any single part.
+   */
+  route(prefix: WildcardMultistringAddress, id: string): void {
+    this.unroute(prefix)
+    this.routes.push({ prefix, id })
+  }
+  /**
+   * @returns If there was a route with exactly this prefix
+   */
+  unroute(prefix: WildcardMultistringAddress): boolean {
+    const i = this.routes.findIndex(
+      (r) =>
+        r.prefix.length === prefix.length &&
+        r.prefix.every((p, j) => (p || null) === (prefix[j] || null))
+    )
+    if (i < 0) {
+      return false
+    }
+    this.routes.splice(i, 1)
+    return true
+  }
+
+  /**
+   * Finds where a call to `to` is relayed.
+   * @returns The ID of the peer and the address to call on it
+   */
+  resolve(to: MultistringAddress): [string, MultistringAddress] | undefined {
+    // Internal messages are only for the channel they arrive on
+    if (to[0] === '_') {
+      return undefined
+    }
+    if (to[0] === this.peer_prefix && to.length > 2) {
+      return [to[1], to.slice(2)]
+    }
+    let best: Route | undefined
+    this.routes.forEach((r) => {
+      const matches =
+        r.prefix.length <= to.length &&
+        r.prefix.every((p, i) => !p || p === to[i])
+      if (matches && (!best || r.prefix.length > best.prefix.length)) {
+        best = r
+      }
+    })
+    return best && [best.id, to]
+  }
+
+  close(): void {
+    this.peers.forEach((channel) => channel.close())
+  }
+
+  protected relay(
+    ctx: RpcCallContext,
+    args: SerializedData[]
+  ):
+    | Promise<SerializedData>
+    | AsyncGenerator<SerializedData, SerializedData, SerializableData>
+    | undefined {
+    const route = this.resolve(ctx.address)
+    const target = route && this.peers.get(route[0])
+    // Calls are never sent back where they came from
+    if (!route || !target || target === ctx.channel) {
+      throw new RpcNotFoundError('Function at address is undefined')
+    }
+    const [, to] = route
+    const { message, signal } = ctx
+    const { deadline, idempotency_key } = message
+    if (!message.return_addr) {
+      target.send(to, args)
+      return
+    }
+    if (message.return_type === 'generator') {
+      return target.generate(to, args, {
+        signal,
+        bidirectional: message.bidirectional,
+        high_water_mark: message.credit,
+        deadline,
+        idempotency_key
+      })
+    }
+    return target.call(to, args, { signal, deadline, idempotency_key })
+  }
+}
@@ -1,9 +1,137 @@
 import Ajv from 'ajv'
 
-type Schema = Record<string, unknown> | boolean
+import { RpcCallContext } from './context'
+
+export type Schema = Record<string, unknown> | boolean
+
+/**
+ * The JSON schema that a function's arguments are validated against. This is
+ * set by `EnforceArgumentSchema` and `EnforceMethodArgSchema` and is listed by
+ * the discovery endpoint.
+ */
+export const RpcArgumentSchema = Symbol('RpcArgumentSchema')
+/**
+ * The `ResultSchemas` of a function. This is set by `ResultSchema` and
+ * `MethodResultSchema`.
+ */
+export const RpcResultSchema = Symbol('RpcResultSchema')
+
+/**
+ * Schemas for what a function returns. These are listed by the discovery
+ * endpoint and, if `enforce` is set, are checked by the channel before the
+ * result is sent.
+ */
+export interface ResultSchemas {
+  /**
+   * The schema of the resolved return value. For generators, this is the
+   * schema of the value returned when the generator finishes.
+   */
+  returns?: Schema
+  /**
+   * The schema of each value yielded by a generator.
+   */
+  yields?: Schema
+  /**
+   * Fails the call with a `ValidationError` instead of sending a result that
+   * does not match.
+   */
+  enforce?: boolean
+}
 
 const ajv = new Ajv()
 
+/**
+ * Compiled schemas, so that a schema is only compiled the first time it is
+ * used to check a result
+ */
+const compiled = new WeakMap<Record<string, unknown>, Ajv.ValidateFunction>()
+
+/**
+ * Errors thrown because arguments did not match a schema, so that channels
+ * can tell callers that their arguments were invalid
+ */
+const argument_errors = new WeakSet<Error>()
+
+/**
+ * Checks if `error` was thrown because a function's arguments did not match
+ * its schema.
+ */
+function isArgumentError(error: unknown): boolean {
+  return error instanceof Error && argument_errors.has(error)
+}
+
+/**
+ * @throws {Ajv.ValidationError} If `data` does not match `schema`
+ */
+function validate(schema: Schema, data: unknown): void {
+  let ValidateSchema: Ajv.ValidateFunction | undefined
+  if (typeof schema === 'boolean') {
+    ValidateSchema = ajv.compile(schema)
+  } else if (!(ValidateSchema = compiled.get(schema))) {
+    ValidateSchema = ajv.compile(schema)
+    compiled.set(schema, ValidateSchema)
+  }
+  ValidateSchema(data)
+  if (ValidateSchema.errors?.length) {
+    const error = new Ajv.ValidationError([...ValidateSchema.errors])
+    ValidateSchema.errors.length = 0
+    throw error
+  }
+}
+
+/**
+ * Checks arguments against a schema from `EnforceArgumentSchema` before they
+ * are sent, so that the caller gets the same error as the remote end would
+ * throw. The schema is compiled into code, so it must come from a trusted
+ * source.
+ * @param args The arguments as the remote function would receive them
+ * @throws {Ajv.ValidationError} If `args` does not match `schema`
+ */
+function checkArguments(schema: Schema, args: unknown[]): void {
+  try {
+    validate(schema, args)
+  } catch (e) {
+    argument_errors.add(e)
+    throw e
+  }
+}
+
+/**
+ * Wrapping a function must not lose what other decorators have set on it.
+ */
+// eslint-disable-next-line
+function copyMetadata(from: any, to: any): void {
+  Object.getOwnPropertySymbols(from).forEach((key) => {
+    to[key] = from[key]
+  })
+}
+
+/**
+ * Functions using `WithCallContext` get the context as the first argument.
+ * This is left out of validation so that schemas only describe the actual
+ * call arguments.
+ */
+// eslint-disable-next-line
+function argsToValidate(args: any[]): any[] {
+  return args[0] instanceof RpcCallContext ? args.slice(1) : args
+}
+
+/**
+ * @throws {Ajv.ValidationError} If `args` do not match
+ */
+function validateArguments(
+  ValidateSchema: Ajv.ValidateFunction,
+  args: unknown[]
+): void {
+  ValidateSchema(argsToValidate(args))
+  if (ValidateSchema.errors?.length) {
+    const error = new Ajv.ValidationError([...ValidateSchema.errors])
+    ValidateSchema.errors.length = 0
+    argument_errors.add(error)
+    throw error
+  }
+}
+
 // eslint-disable-next-line
 function EnforceArgumentSchema<F extends (...args: any[]) => void>(
   schema: Schema,
@@ -12,15 +140,14 @@ function EnforceArgumentSchema<F extends (...args: any[]) => void>(
   const ValidateSchema = ajv.compile(schema)
   // I really just have to force this since TS has no way of doing this, AFAIK
   // eslint-disable-next-line
-  return (((...args: any[]) => {
-    ValidateSchema(args)
-    if (ValidateSchema.errors?.length) {
-      const error = new Ajv.ValidationError([...ValidateSchema.errors])
-      ValidateSchema.errors.length = 0
-      throw error
-    }
+  const wrapped = (...args: any[]) => {
+    validateArguments(ValidateSchema, args)
     return func(...args)
-  }) as unknown) as F
+  }
+  copyMetadata(func, wrapped)
+  // eslint-disable-next-line
+  ;(wrapped as any)[RpcArgumentSchema] = schema
+  return (wrapped as unknown) as F
 }
 
 function EnforceMethodArgSchema(schema: Schema) {
@@ -37,16 +164,98 @@ function EnforceMethodArgSchema(schema: Schema) {
     const ValidateSchema = ajv.compile(schema)
     // eslint-disable-next-line
     descriptor.value = function (...args: any[]) {
-      ValidateSchema(args)
-      if (ValidateSchema.errors?.length) {
-        const error = new Ajv.ValidationError([...ValidateSchema.errors])
-        ValidateSchema.errors.length = 0
-        throw error
-      }
+      validateArguments(ValidateSchema, args)
       return func.apply(this, args)
     }
+    copyMetadata(func, descriptor.value)
+    descriptor.value[RpcArgumentSchema] = schema
     return descriptor
   }
 }
 
-export { EnforceArgumentSchema, EnforceMethodArgSchema }
+/**
+ * Declares what `func` returns. This changes and returns `func` itself.
+ */
+// eslint-disable-next-line
+function ResultSchema<F extends (...args: any[]) => unknown>(
+  schemas: ResultSchemas,
+  func: F
+): F {
+  // eslint-disable-next-line
+  ;(func as any)[RpcResultSchema] = schemas
+  return func
+}
+
+/**
+ * Declares what a method returns.
+ */
+function MethodResultSchema(schemas: ResultSchemas) {
+  return function (
+    // eslint-disable-next-line
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor
+  ): void {
+    const func = descriptor.value
+    if (typeof func !== 'function') {
+      throw new TypeError('Cannot set result schema for non-function')
+    }
+    func[RpcResultSchema] = schemas
+  }
+}
+
+type AnyAsyncGenerator = AsyncGenerator<unknown, unknown, unknown>
+
+/**
+ * Checks the result of a function against `schemas`. Promises and generators
+ * are wrapped so that their values are checked as they are produced.
+ * @throws {Ajv.ValidationError} If `result` is a value that does not match
+ */
+function checkResult<T>(result: T, schemas: ResultSchemas): T {
+  const check = (schema: Schema | undefined, data: unknown): void => {
+    if (typeof schema !== 'undefined') {
+      validate(schema, data)
+    }
+  }
+  if (result instanceof Promise) {
+    return (result.then((value) => {
+      check(schemas.returns, value)
+      return value
+    }) as unknown) as T
+  }
+  const it = (result as unknown) as AnyAsyncGenerator
+  if (it && it[Symbol.asyncIterator] && typeof it.next === 'function') {
+    const wrapped: AnyAsyncGenerator = {
+      async next(value: unknown) {
+        const r = await it.next(value)
+        try {
+          check(r.done ? schemas.returns : schemas.yields, r.value)
+        } catch (e) {
+          if (!r.done) {
+            await it.return(undefined)
+          }
+          throw e
+        }
+        return r
+      },
+      return: (value) => it.return(value),
+      throw: (e) => it.throw(e),
+      [Symbol.asyncIterator]() {
+        return wrapped
+      }
+    }
+    return (wrapped as unknown) as T
+  }
+  check(schemas.returns, result)
+  return result
+}
+
+export {
+  EnforceArgumentSchema,
+  EnforceMethodArgSchema,
+  ResultSchema,
+  MethodResultSchema,
+  checkArguments,
+  checkResult,
+  isArgumentError
+}
@@ -1,9 +1,13 @@
+import { ErrorRegistry, ErrorStackPolicy, serializeError } from './errors'
+
 export const toRpcSerialized = Symbol('ChannelRpcSerialize')
+export const RpcProxied = Symbol('RpcProxied')
 
 type Primitive = undefined | null | void | boolean | number | string | BigInt
 
 type SerializableArray = SerializableData[]
 type SerializationFuncObject = { [toRpcSerialized]: SerializationFunction }
+type ProxiedValue = { [RpcProxied]: true }
 type SerializableObject =
   | { [key: string]: SerializableData }
   | SerializationFuncObject
@@ -13,6 +17,7 @@ export type SerializableData =
   | SerializableObject
   | Transferable
   | Error
+  | ProxiedValue
 
 type SerializedArray = SerializedData[]
 type SerializedObject = { [key: string]: SerializedData }
@@ -27,6 +32,225 @@ type SerializationFunction = (
   xfer: Transferable[]
 ) => SerializedData
 
+/**
+ * Converts a value marked with `Proxied` into a reference token.
+ */
+export type ProxySerializationFunction = (target: unknown) => SerializedData
+
+/**
+ * Marks a function or object to be sent as a remote reference instead of by
+ * value. The receiving end gets a proxy that calls back into `target`. Objects
+ * are sent as an object with a proxy for each of their methods.
+ * @param target The function or object to mark
+ * @returns `target`
+ */
+export function Proxied<T>(target: T): T & ProxiedValue {
+  ;(target as T & ProxiedValue)[RpcProxied] = true
+  return target as T & ProxiedValue
+}
+
+/**
+ * Sent in place of an instance of a class registered with a `TypeRegistry`.
+ * Plain objects that look like this are escaped by sending them as the
+ * `value` of a token with an empty `rpc_type`.
+ */
+export interface RpcTypeToken {
+  rpc_type: string
+  value: SerializedData
+}
+
+// eslint-disable-next-line
+type Constructor<T> = { new (...args: any[]): T }
+
+interface TypeDefinition {
+  tag: string
+  type: Constructor<unknown>
+  serialize: (value: unknown) => SerializableData
+  deserialize: (data: SerializedData) => unknown
+}
+
+function isPlainObject(data: unknown): boolean {
+  if (!data || typeof data !== 'object') {
+    return false
+  }
+  const proto = Object.getPrototypeOf(data)
+  return proto === Object.prototype || proto === null
+}
+
+function isTypeToken(data: unknown): boolean {
+  if (!isPlainObject(data)) {
+    return false
+  }
+  const keys = Object.keys(data as RpcTypeToken)
+  return (
+    keys.length === 2 &&
+    typeof (data as RpcTypeToken).rpc_type === 'string' &&
+    'value' in (data as RpcTypeToken)
+  )
+}
+
+/**
+ * Classes that are sent as a tagged value and revived as instances of the same
+ * class on the receiving end. Both ends must register the same tags. A
+ * registry can be shared between any number of channels with the `types`
+ * option of `RpcChannel`, or used directly with `rpcSerialize` and `revive`.
+ */
+export class TypeRegistry {
+  protected readonly by_tag = new Map<string, TypeDefinition>()
+  protected readonly by_type = new Map<unknown, TypeDefinition>()
+
+  /**
+   * Registers a class. Instances of subclasses are also sent with this tag
+   * unless the subclass is registered too.
+   * @param tag A unique name for the class that is sent with each instance
+   * @param type The class
+   * @param serialize Converts an instance into data that can be serialized
+   * @param deserialize Creates an instance from the data returned by
+   * `serialize`. This may throw if the data is invalid.
+   * @throws If `tag` is empty or is already registered
+   */
+  register<T>(
+    tag: string,
+    type: Constructor<T>,
+    serialize: (value: T) => SerializableData,
+    deserialize: (data: SerializedData) => T
+  ): this {
+    if (!tag) {
+      throw new TypeError('Type tag cannot be empty')
+    }
+    if (this.by_tag.has(tag)) {
+      throw new Error(`Type ${tag} is already registered`)
+    }
+    const def = {
+      tag,
+      type,
+      serialize: serialize as (value: unknown) => SerializableData,
+      deserialize
+    }
+    this.by_tag.set(tag, def)
+    this.by_type.set(type, def)
+    return this
+  }
+  /**
+   * @returns If the tag was registered
+   */
+  unregister(tag: string): boolean {
+    const def = this.by_tag.get(tag)
+    if (!def) {
+      return false
+    }
+    this.by_tag.delete(tag)
+    this.by_type.delete(def.type)
+    return true
+  }
+  has(tag: string): boolean {
+    return this.by_tag.has(tag)
+  }
+
+  protected find(data: unknown): TypeDefinition | undefined {
+    const def = this.by_type.get(
+      (data as { constructor?: unknown }).constructor
+    )
+    if (def) {
+      return def
+    }
+    for (const def of this.by_tag.values()) {
+      if (data instanceof def.type) {
+        return def
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Converts an instance of a registered class into an `RpcTypeToken` and
+   * escapes plain objects that look like tokens. This is used by codecs.
+   * @param data The value to convert
+   * @param encode Serializes values inside of the token
+   * @returns The token, or `undefined` if `data` is not special
+   */
+  encode(
+    data: unknown,
+    encode: (data: SerializableData) => SerializedData
+  ): SerializedData | undefined {
+    if (!data || (typeof data !== 'object' && typeof data !== 'function')) {
+      return undefined
+    }
+    if (isTypeToken(data)) {
+      const token = data as RpcTypeToken
+      return {
+        rpc_type: '',
+        value: { rpc_type: token.rpc_type, value: encode(token.value) }
+      }
+    }
+    const def = this.find(data)
+    if (!def) {
+      return undefined
+    }
+    return { rpc_type: def.tag, value: encode(def.serialize(data)) }
+  }
+  /**
+   * Replaces all `RpcTypeToken`s in `data` with instances of the registered
+   * classes. Data that doesn't contain tokens is returned unchanged.
+   * @throws If a token's tag isn't registered or the class's `deserialize`
+   * throws
+   */
+  revive(data: SerializedData): SerializedData {
+    if (Array.isArray(data)) {
+      const out = data.map((d) => this.revive(d))
+      return out.some((d, i) => d !== data[i]) ? out : data
+    }
+    // Only plain objects are searched so transferables are left alone
+    if (!isPlainObject(data)) {
+      return data
+    }
+    if (isTypeToken(data)) {
+      const { rpc_type, value } = (data as unknown) as RpcTypeToken
+      if (rpc_type === '') {
+        if (!isTypeToken(value)) {
+          throw new TypeError('Invalid escaped type token')
+        }
+        const escaped = (value as unknown) as RpcTypeToken
+        return { rpc_type: escaped.rpc_type, value: this.revive(escaped.value) }
+      }
+      const def = this.by_tag.get(rpc_type)
+      if (!def) {
+        throw new TypeError(`Unknown type ${rpc_type}`)
+      }
+      return def.deserialize(this.revive(value)) as SerializedData
+    }
+    const obj = data as SerializedObject
+    let out: SerializedObject | undefined
+    Object.keys(obj).forEach((k) => {
+      const d = this.revive(obj[k])
+      if (d !== obj[k]) {
+        out = out || { ...obj }
+        out[k] = d
+      }
+    })
+    return out || data
+  }
+}
+
+/**
+ * Options for `rpcSerialize` and `Codec`s.
+ */
+export interface SerializeOpts {
+  /**
+   * Classes to send as `RpcTypeToken`s. The receiving end should restore them
+   * with `TypeRegistry.revive`.
+   */
+  types?: TypeRegistry
+  /**
+   * Used to find the name errors are sent with. Defaults to `default_errors`.
+   */
+  errors?: ErrorRegistry
+  /**
+   * What to send as the stack of errors. Defaults to `'redact'`.
+   */
+  error_stack?: ErrorStackPolicy
+}
+
 /**
  * Javascript will throw errors if I do a simple defined check, so all of this
  * crap is to ensure that doesn't happen. It would be nice to put this in a
@@ -55,19 +279,44 @@ const transferrables = [
   typeof Float64Array !== 'undefined' && Float64Array
 ].filter((d) => d)
 
+/**
+ * Checks if `data` is an object that can be transferred with `postMessage`.
+ */
+export function isTransferable(data: unknown): boolean {
+  return transferrables.some(
+    (type) => data instanceof ((type as unknown) as () => void)
+  )
+}
+
 /**
  * Prepares `data` to be sent over a MessagePort by ensuring that all data is
  * of a type that can be sent and that all transferrables are `push`ed to
  * `xfer`.
- * @todo Make error stack sending configurable
  * @param data Data to serialize
  * @param xfer Destination array for transferrables
+ * @param proxy Converts values marked with `Proxied`. If not set, these throw.
+ * @param opts Classes to send specially and how to send errors
  * @returns The data in serialized format
  */
 export function rpcSerialize(
   data: SerializableData,
-  xfer: Transferable[]
+  xfer: Transferable[],
+  proxy?: ProxySerializationFunction,
+  opts: SerializeOpts = {}
 ): SerializedData {
+  const { types } = opts
+  if (data && (data as ProxiedValue)[RpcProxied]) {
+    if (!proxy) {
+      throw new TypeError('Proxied values can only be sent over an RpcChannel')
+    }
+    return proxy(data)
+  }
+  if (types) {
+    const token = types.encode(data, (d) => rpcSerialize(d, xfer, proxy, opts))
+    if (token !== undefined) {
+      return token
+    }
+  }
   if (data && (data as SerializationFuncObject)[toRpcSerialized]) {
     return (data as SerializationFuncObject)[toRpcSerialized](data, xfer)
   }
@@ -87,33 +336,24 @@ export function rpcSerialize(
       if (data === null) {
         return null
       }
-      if (
-        transferrables.some(
-          (type) => data instanceof ((type as unknown) as () => void)
-        )
-      ) {
+      if (isTransferable(data)) {
         xfer.push(data as Transferable)
         return data as SerializedData
       }
       if (data instanceof Error) {
-        return {
-          name: data.name,
-          message: data.message,
-          stack: 'Stack trace redacted for security reasons',
-          // These don't exist in the TS definitions, but they may exist in
-          // other runtime environments
-          columnNumber: ((data as unknown) as { columnNumber: number })
-            .columnNumber,
-          lineNumber: ((data as unknown) as { lineNumber: number }).lineNumber,
-          fileName: ((data as unknown) as { fileName: number }).fileName
-        }
+        return serializeError(
+          data,
+          (d) => rpcSerialize(d, xfer, proxy, opts),
+          opts.errors,
+          opts.error_stack
+        )
       }
       if (Array.isArray(data)) {
-        return data.map((e) => rpcSerialize(e, xfer))
+        return data.map((e) => rpcSerialize(e, xfer, proxy, opts))
       }
       const robj: SerializedObject = {}
       Object.keys(data as SerializedObject).forEach((k) => {
-        robj[k] = rpcSerialize((data as SerializedObject)[k], xfer)
+        robj[k] = rpcSerialize((data as SerializedObject)[k], xfer, proxy, opts)
       })
       return robj
     default:
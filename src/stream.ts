@@ -0,0 +1,433 @@
+/**
+ * Transports for byte streams, such as sockets and child process stdio, and
+ * for WebSockets. Messages are converted to bytes or text by a `MessageCodec`
+ * and, for streams, split into frames.
+ * @author Nathan Pennie <kb1rd@kb1rd.net>
+ */
+/** */
+
+import { Codec, EncodedMessage, MessageCodec, JsonMessageCodec } from './codec'
+import { RpcMessage } from './registry'
+import { Transport } from './transport'
+import { isDefined } from './utils'
+
+/**
+ * The largest frame accepted by default. Frames larger than this are assumed
+ * to be a corrupt or malicious stream.
+ */
+export const DEFAULT_MAX_FRAME_SIZE = 16 * 1024 * 1024
+
+// `WebSocket.readyState` values
+const WS_CONNECTING = 0
+const WS_CLOSING = 2
+
+function toBytes(data: EncodedMessage): Uint8Array {
+  return typeof data === 'string' ? new TextEncoder().encode(data) : data
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (!a.length) {
+    return b
+  }
+  const out = new Uint8Array(a.length + b.length)
+  out.set(a)
+  out.set(b, a.length)
+  return out
+}
+
+/**
+ * Splits a byte stream into messages. A `Framing` holds the partially received
+ * message, so each stream needs its own.
+ */
+export interface Framing {
+  /**
+   * Wraps a message to be written to the stream.
+   */
+  frame(payload: Uint8Array): Uint8Array
+  /**
+   * Adds bytes read from the stream.
+   * @returns Any messages that are now complete
+   * @throws If the stream is corrupt. No more data can be read after this.
+   */
+  push(chunk: Uint8Array): Uint8Array[]
+}
+
+/**
+ * Prefixes each message with its length as a 32-bit big endian integer. This
+ * works with any `MessageCodec`.
+ */
+export class LengthPrefixedFraming implements Framing {
+  protected buffer = new Uint8Array(0)
+
+  constructor(readonly max_frame_size = DEFAULT_MAX_FRAME_SIZE) {}
+
+  frame(payload: Uint8Array): Uint8Array {
+    if (payload.length > this.max_frame_size) {
+      throw new RangeError('Frame exceeds maximum size')
+    }
+    const out = new Uint8Array(payload.length + 4)
+    new DataView(out.buffer).setUint32(0, payload.length)
+    out.set(payload, 4)
+    return out
+  }
+  push(chunk: Uint8Array): Uint8Array[] {
+    const buffer = concatBytes(this.buffer, chunk)
+    const view = new DataView(buffer.buffer, buffer.byteOffset)
+    const frames: Uint8Array[] = []
+    let offset = 0
+    while (buffer.length - offset >= 4) {
+      const length = view.getUint32(offset)
+      if (length > this.max_frame_size) {
+        throw new RangeError('Frame exceeds maximum size')
+      }
+      if (buffer.length - offset - 4 < length) {
+        break
+      }
+      frames.push(buffer.slice(offset + 4, offset + 4 + length))
+      offset += 4 + length
+    }
+    this.buffer = buffer.slice(offset)
+    return frames
+  }
+}
+
+/**
+ * Ends each message with a newline. This only works with codecs that never
+ * produce newlines, such as `JsonMessageCodec`, but is easy to read and write
+ * by hand.
+ */
+export class NewlineFraming implements Framing {
+  protected buffer = new Uint8Array(0)
+
+  constructor(readonly max_frame_size = DEFAULT_MAX_FRAME_SIZE) {}
+
+  frame(payload: Uint8Array): Uint8Array {
+    if (payload.length > this.max_frame_size) {
+      throw new RangeError('Frame exceeds maximum size')
+    }
+    if (payload.includes(0x0a)) {
+      throw new TypeError('Newline delimited frames cannot contain newlines')
+    }
+    return concatBytes(payload, new Uint8Array([0x0a]))
+  }
+  push(chunk: Uint8Array): Uint8Array[] {
+    let buffer = concatBytes(this.buffer, chunk)
+    const frames: Uint8Array[] = []
+    let end: number
+    while ((end = buffer.indexOf(0x0a)) >= 0) {
+      // Blank lines are ignored
+      if (end > 0) {
+        frames.push(buffer.slice(0, end))
+      }
+      buffer = buffer.slice(end + 1)
+    }
+    if (buffer.length > this.max_frame_size) {
+      throw new RangeError('Frame exceeds maximum size')
+    }
+    this.buffer = buffer
+    return frames
+  }
+}
+
+/**
+ * A Node `Readable` or anything that looks like one.
+ */
+export interface ReadableStreamLike {
+  // eslint-disable-next-line
+  on(event: string, listener: (...args: any[]) => void): unknown
+  // eslint-disable-next-line
+  off(event: string, listener: (...args: any[]) => void): unknown
+}
+
+/**
+ * A Node `Writable` or anything that looks like one.
+ */
+export interface WritableStreamLike {
+  write(chunk: Uint8Array): unknown
+  end?(): unknown
+}
+
+export interface StreamTransportOpts {
+  /**
+   * Converts messages to bytes. Defaults to a `JsonMessageCodec`.
+   */
+  message_codec?: MessageCodec
+  /**
+   * How messages are separated in the stream: `'length'` for
+   * `LengthPrefixedFraming` (the default), `'newline'` for `NewlineFraming`,
+   * or a custom `Framing`.
+   */
+  framing?: 'length' | 'newline' | Framing
+  /**
+   * The largest message that can be sent or received. If a larger message is
+   * received, the transport is closed. This does not apply to custom
+   * `framing`s.
+   */
+  max_frame_size?: number
+  /**
+   * Whether to `end` the output when the transport is closed. Defaults to
+   * `true`.
+   */
+  end_on_close?: boolean
+}
+
+/**
+ * Communicates over a pair of byte streams. The channel is closed when the
+ * input ends or errors. Received messages that cannot be decoded are dropped.
+ */
+export class StreamTransport implements Transport {
+  readonly message_codec: MessageCodec
+  readonly framing: Framing
+  protected listeners?: {
+    data: (chunk: Uint8Array | string) => void
+    close: () => void
+  }
+  protected closed = false
+
+  constructor(
+    readonly input: ReadableStreamLike,
+    readonly output: WritableStreamLike,
+    protected readonly opts: StreamTransportOpts = {}
+  ) {
+    this.message_codec = opts.message_codec || new JsonMessageCodec()
+    const { framing = 'length', max_frame_size } = opts
+    if (framing === 'length') {
+      this.framing = new LengthPrefixedFraming(max_frame_size)
+    } else if (framing === 'newline') {
+      this.framing = new NewlineFraming(max_frame_size)
+    } else {
+      this.framing = framing
+    }
+  }
+
+  get codec(): Codec | undefined {
+    return this.message_codec.codec
+  }
+
+  send(msg: RpcMessage): void {
+    if (this.closed) {
+      throw new Error('Transport closed')
+    }
+    const data = this.message_codec.encode(msg)
+    this.output.write(this.framing.frame(toBytes(data)))
+  }
+  listen(onmessage: (msg: RpcMessage) => void, onclose: () => void): void {
+    const close = (): void => {
+      if (!this.closed) {
+        this.close()
+        onclose()
+      }
+    }
+    const data = (chunk: Uint8Array | string): void => {
+      let frames: Uint8Array[]
+      try {
+        frames = this.framing.push(toBytes(chunk))
+      } catch (e) {
+        // There's no way to find the start of the next message
+        close()
+        return
+      }
+      for (const frame of frames) {
+        let msg: RpcMessage
+        try {
+          msg = this.message_codec.decode(frame)
+        } catch (e) {
+          continue
+        }
+        onmessage(msg)
+      }
+    }
+    this.listeners = { data, close }
+    this.input.on('data', data)
+    this.input.on('end', close)
+    this.input.on('close', close)
+    this.input.on('error', close)
+  }
+  close(): void {
+    if (this.closed) {
+      return
+    }
+    this.closed = true
+    if (this.listeners) {
+      const { data, close } = this.listeners
+      this.input.off('data', data)
+      this.input.off('end', close)
+      this.input.off('close', close)
+      this.input.off('error', close)
+      delete this.listeners
+    }
+    if (this.opts.end_on_close !== false && this.output.end) {
+      this.output.end()
+    }
+  }
+}
+
+/**
+ * Communicates over a Node `Duplex` stream, such as a `net.Socket`.
+ */
+export class DuplexTransport extends StreamTransport {
+  constructor(
+    stream: ReadableStreamLike & WritableStreamLike,
+    opts: StreamTransportOpts = {}
+  ) {
+    super(stream, stream, opts)
+  }
+}
+
+/**
+ * A Node `ChildProcess` spawned with piped `stdin` and `stdout`.
+ */
+export interface ChildProcessLike extends ReadableStreamLike {
+  stdin: WritableStreamLike | null
+  stdout: ReadableStreamLike | null
+}
+
+/**
+ * Communicates with a child process over its `stdin` and `stdout`. The channel
+ * is closed when the process exits. Closing the transport ends `stdin`, but
+ * does not kill the process. In the child process, use a `StreamTransport`
+ * with `process.stdin` and `process.stdout` and set `end_on_close` to `false`.
+ * Nothing else may be written to the child's `stdout`.
+ */
+export class ChildProcessTransport extends StreamTransport {
+  protected onexit?: () => void
+
+  constructor(
+    readonly child: ChildProcessLike,
+    opts: StreamTransportOpts = {}
+  ) {
+    super(
+      child.stdout as ReadableStreamLike,
+      child.stdin as WritableStreamLike,
+      opts
+    )
+    if (!child.stdin || !child.stdout) {
+      throw new TypeError('Child process must have piped stdin and stdout')
+    }
+  }
+
+  listen(onmessage: (msg: RpcMessage) => void, onclose: () => void): void {
+    super.listen(onmessage, onclose)
+    this.onexit = () => {
+      if (!this.closed) {
+        this.close()
+        onclose()
+      }
+    }
+    this.child.on('exit', this.onexit)
+  }
+  close(): void {
+    if (this.onexit) {
+      this.child.off('exit', this.onexit)
+      delete this.onexit
+    }
+    super.close()
+  }
+}
+
+/**
+ * A browser `WebSocket`, a WebSocket from the `ws` package, or anything that
+ * looks like one.
+ */
+export interface WebSocketLike {
+  readonly readyState: number
+  binaryType?: string
+  send(data: string | Uint8Array): void
+  close(): void
+  addEventListener(
+    type: string,
+    listener: (ev: { data?: unknown }) => void
+  ): void
+  removeEventListener(
+    type: string,
+    listener: (ev: { data?: unknown }) => void
+  ): void
+}
+
+/**
+ * Communicates over a WebSocket. WebSockets already separate messages, so only
+ * a `MessageCodec` is needed. Messages sent before the socket opens are
+ * queued. The channel is closed when the socket closes and vice versa.
+ */
+export class WebSocketTransport implements Transport {
+  readonly message_codec: MessageCodec
+  protected queue: EncodedMessage[] = []
+  protected listeners?: {
+    message: (ev: { data?: unknown }) => void
+    open: () => void
+    close: () => void
+  }
+
+  /**
+   * @param socket The socket to communicate over
+   * @param message_codec Converts messages to text or bytes. Defaults to a
+   * `JsonMessageCodec`.
+   */
+  constructor(readonly socket: WebSocketLike, message_codec?: MessageCodec) {
+    this.message_codec = message_codec || new JsonMessageCodec()
+    // Browsers default to `Blob`s, which can only be read asynchronously
+    if (isDefined(socket.binaryType)) {
+      socket.binaryType = 'arraybuffer'
+    }
+  }
+
+  get codec(): Codec | undefined {
+    return this.message_codec.codec
+  }
+
+  send(msg: RpcMessage): void {
+    const data = this.message_codec.encode(msg)
+    if (this.socket.readyState === WS_CONNECTING) {
+      this.queue.push(data)
+    } else {
+      this.socket.send(data)
+    }
+  }
+  listen(onmessage: (msg: RpcMessage) => void, onclose: () => void): void {
+    const message = (ev: { data?: unknown }): void => {
+      const { data } = ev
+      let encoded: EncodedMessage
+      if (typeof data === 'string' || data instanceof Uint8Array) {
+        encoded = data
+      } else if (data instanceof ArrayBuffer) {
+        encoded = new Uint8Array(data)
+      } else {
+        return
+      }
+      let msg: RpcMessage
+      try {
+        msg = this.message_codec.decode(encoded)
+      } catch (e) {
+        return
+      }
+      onmessage(msg)
+    }
+    const open = (): void => {
+      this.queue.forEach((data) => this.socket.send(data))
+      this.queue.length = 0
+    }
+    const close = (): void => {
+      if (this.listeners) {
+        this.close()
+        onclose()
+      }
+    }
+    this.listeners = { message, open, close }
+    this.socket.addEventListener('message', message)
+    this.socket.addEventListener('open', open)
+    this.socket.addEventListener('close', close)
+  }
+  close(): void {
+    if (this.listeners) {
+      const { message, open, close } = this.listeners
+      this.socket.removeEventListener('message', message)
+      this.socket.removeEventListener('open', open)
+      this.socket.removeEventListener('close', close)
+      delete this.listeners
+    }
+    this.queue.length = 0
+    if (this.socket.readyState < WS_CLOSING) {
+      this.socket.close()
+    }
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Adapters that connect an `RpcChannel` to the environment's messaging APIs so
+ * that the `c_send` function and the calls to `receive` don't have to be
+ * written by hand.
+ * @author Nathan Pennie <kb1rd@kb1rd.net>
+ */
+/** */
+
+import { AccessPolicy } from './accesscontrol'
+import { Codec } from './codec'
+import {
+  RpcChannel,
+  RpcChannelOpts,
+  RpcHandlerRegistry,
+  RpcMessage
+} from './registry'
+
+/**
+ * Carries `RpcMessage`s to and from the remote end.
+ */
+export interface Transport {
+  /**
+   * The `Codec` that channels should use with this transport, if the transport
+   * does not support structured cloning.
+   */
+  readonly codec?: Codec
+  /**
+   * Sends a message to the remote end.
+   * @param msg The message to send
+   * @param xfer Objects to transfer instead of copy, if supported
+   */
+  send(msg: RpcMessage, xfer: Transferable[]): void
+  /**
+   * Starts passing received messages to `onmessage`. The transport calls
+   * `onclose` when the underlying connection closes.
+   */
+  listen(onmessage: (msg: RpcMessage) => void, onclose: () => void): void
+  /**
+   * Stops listening and closes the underlying connection if the transport
+   * owns it. This may be called more than once.
+   */
+  close(): void
+}
+
+/**
+ * Creates an `RpcChannel` that communicates over `transport`. The transport is
+ * closed when the channel closes and vice versa. The channel still needs to be
+ * `start`ed. Unless `opts` sets a `codec`, the transport's `codec` is used.
+ * @param transport The transport to use
+ * @param default_policy See `RpcChannel`
+ * @param reg See `RpcChannel`
+ * @param opts See `RpcChannel`
+ */
+export function createChannel(
+  transport: Transport,
+  default_policy = AccessPolicy.ALLOW,
+  reg: RpcHandlerRegistry = new RpcHandlerRegistry(),
+  opts: RpcChannelOpts = {}
+): RpcChannel {
+  const channel = new RpcChannel(
+    (msg, xfer) => transport.send(msg, xfer),
+    default_policy,
+    reg,
+    { codec: transport.codec, ...opts }
+  )
+  transport.listen(
+    (msg) => channel.receive(msg),
+    () => channel.close(false)
+  )
+  channel.once('close', () => transport.close())
+  return channel
+}
+
+interface MessageEventLike {
+  data: unknown
+  origin?: string
+  source?: unknown
+}
+type MessageEventListener = (ev: MessageEventLike) => void
+
+/**
+ * Anything with a DOM-style `postMessage` that takes a transfer list, such as a
+ * `Worker`, a `MessagePort`, or `self` inside of a worker.
+ */
+export interface PostMessageEndpoint {
+  postMessage(message: unknown, transfer: Transferable[]): void
+  addEventListener(type: string, listener: MessageEventListener): void
+  removeEventListener(type: string, listener: MessageEventListener): void
+}
+
+/**
+ * Communicates with a `Worker` or, from inside of a worker, with `self`. Since
+ * workers do not signal when they exit, the channel must be closed manually or
+ * with a `timeout`. Closing the transport does not terminate the worker.
+ */
+export class WorkerTransport implements Transport {
+  protected onmessage?: MessageEventListener
+
+  constructor(readonly target: PostMessageEndpoint) {}
+
+  send(msg: RpcMessage, xfer: Transferable[]): void {
+    this.target.postMessage(msg, xfer)
+  }
+  listen(onmessage: (msg: RpcMessage) => void): void {
+    this.onmessage = (ev) => onmessage(ev.data as RpcMessage)
+    this.target.addEventListener('message', this.onmessage)
+  }
+  close(): void {
+    if (this.onmessage) {
+      this.target.removeEventListener('message', this.onmessage)
+      delete this.onmessage
+    }
+  }
+}
+
+/**
+ * A DOM `MessagePort` or anything that looks like one.
+ */
+export interface MessagePortEndpoint extends PostMessageEndpoint {
+  start(): void
+  close(): void
+}
+
+/**
+ * Communicates over a `MessagePort`, starting it if needed. The port is closed
+ * when the transport is closed. If the environment supports the port's `close`
+ * event, the channel is closed when the other end of the port closes.
+ */
+export class MessagePortTransport extends WorkerTransport {
+  protected onportclose?: () => void
+
+  constructor(readonly target: MessagePortEndpoint) {
+    super(target)
+  }
+
+  listen(onmessage: (msg: RpcMessage) => void, onclose?: () => void): void {
+    super.listen(onmessage)
+    this.onportclose = () => {
+      this.close()
+      if (onclose) {
+        onclose()
+      }
+    }
+    this.target.addEventListener('close', this.onportclose)
+    this.target.start()
+  }
+  close(): void {
+    if (this.onportclose) {
+      this.target.removeEventListener('close', this.onportclose)
+      delete this.onportclose
+    }
+    super.close()
+    this.target.close()
+  }
+}
+
+/**
+ * A `Window` to send messages to.
+ */
+export interface WindowTarget {
+  postMessage(message: unknown, origin: string, transfer: Transferable[]): void
+}
+
+/**
+ * Communicates with another window, such as an `iframe`'s `contentWindow`, a
+ * `window.opener`, or `window.parent`, using `window.postMessage`. Messages are
+ * only sent to `origin` and only messages from `target` with that origin are
+ * received. Setting `origin` to `'*'` disables the origin check, which allows
+ * any site loaded into `target` to make calls, so it should be avoided.
+ */
+export class WindowTransport implements Transport {
+  protected onmessage?: MessageEventListener
+
+  /**
+   * @param target The window to communicate with
+   * @param origin The origin that `target` must have
+   * @param listen_on The window that receives messages. Defaults to `window`.
+   */
+  constructor(
+    readonly target: WindowTarget,
+    readonly origin: string,
+    readonly listen_on: PostMessageEndpoint = (window as unknown) as PostMessageEndpoint
+  ) {}
+
+  send(msg: RpcMessage, xfer: Transferable[]): void {
+    this.target.postMessage(msg, this.origin, xfer)
+  }
+  listen(onmessage: (msg: RpcMessage) => void): void {
+    this.onmessage = (ev) => {
+      if (ev.source !== this.target) {
+        return
+      }
+      if (this.origin !== '*' && ev.origin !== this.origin) {
+        return
+      }
+      onmessage(ev.data as RpcMessage)
+    }
+    this.listen_on.addEventListener('message', this.onmessage)
+  }
+  close(): void {
+    if (this.onmessage) {
+      this.listen_on.removeEventListener('message', this.onmessage)
+      delete this.onmessage
+    }
+  }
+}
+
+/**
+ * A Node `worker_threads` `MessagePort`, `Worker`, or `parentPort`.
+ */
+export interface NodeMessagePortLike {
+  postMessage(value: unknown, transferList?: unknown[]): void
+  // eslint-disable-next-line
+  on(event: string, listener: (...args: any[]) => void): unknown
+  // eslint-disable-next-line
+  off(event: string, listener: (...args: any[]) => void): unknown
+  close?(): void
+}
+
+/**
+ * Communicates over a Node `worker_threads` `MessagePort`, `Worker`, or
+ * `parentPort`. The channel is closed when the port closes or the worker
+ * exits. Closing the transport closes the port, but does not terminate a
+ * `Worker`.
+ */
+export class NodePortTransport implements Transport {
+  protected onmessage?: (msg: RpcMessage) => void
+  protected onportclose?: () => void
+
+  constructor(readonly port: NodeMessagePortLike) {}
+
+  send(msg: RpcMessage, xfer: Transferable[]): void {
+    this.port.postMessage(msg, xfer)
+  }
+  listen(onmessage: (msg: RpcMessage) => void, onclose: () => void): void {
+    this.onmessage = onmessage
+    this.onportclose = () => {
+      this.close()
+      onclose()
+    }
+    this.port.on('message', this.onmessage)
+    this.port.on('close', this.onportclose)
+    this.port.on('exit', this.onportclose)
+  }
+  close(): void {
+    if (this.onmessage && this.onportclose) {
+      this.port.off('message', this.onmessage)
+      this.port.off('close', this.onportclose)
+      this.port.off('exit', this.onportclose)
+      delete this.onmessage
+      delete this.onportclose
+    }
+    if (this.port.close) {
+      this.port.close()
+    }
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Compile-time checked RPC contracts. A contract is an interface whose nested
+ * members mirror the address of each endpoint:
+ * ```typescript
+ * interface MyApi {
+ *   net: {
+ *     kb1rd: {
+ *       add(a: number, b: number): number
+ *       count(to: number): AsyncGenerator<number>
+ *     }
+ *   }
+ * }
+ * ```
+ * @author Nathan Pennie <kb1rd@kb1rd.net>
+ */
+/** */
+
+import { MultistringAddress } from './addrmap'
+import {
+  RpcChannel,
+  HandleRegistry,
+  UseCallContext,
+  RpcContextFunction,
+  RpcGenerateOpts,
+  RpcFunction,
+  copyFunctionMetadata
+} from './registry'
+import { RpcCallContext } from './context'
+import { SerializableData } from './serializer'
+
+// eslint-disable-next-line
+type AnyFunction = (...args: any[]) => any
+
+type Unpromise<T> = T extends Promise<infer U> ? U : T
+
+// Unlike `AsyncIterable<unknown>`, this also matches generators with a `TNext`
+type AsyncIterableLike = { [Symbol.asyncIterator](): unknown }
+
+/**
+ * The client side of a single endpoint. Endpoints that return an
+ * `AsyncIterable` are called with `RpcChannel.generate`, all others with
+ * `RpcChannel.call`.
+ */
+export type TypedRpcEndpoint<F> = F extends (...args: infer A) => infer R
+  ? R extends AsyncGenerator<infer Y, infer Ret, infer N>
+    ? (...args: A) => AsyncGenerator<Y, Ret, N>
+    : R extends AsyncIterable<infer Y>
+    ? (...args: A) => AsyncGenerator<Y, void, void>
+    : (...args: A) => Promise<Unpromise<R>>
+  : never
+
+/**
+ * A proxy with the same shape as the contract `T`.
+ */
+export type TypedRpcClient<T> = {
+  readonly [K in keyof T]: T[K] extends AnyFunction
+    ? TypedRpcEndpoint<T[K]>
+    : TypedRpcClient<T[K]>
+}
+
+/**
+ * Since types do not exist at runtime, the client must be told which
+ * endpoints are generators. Set each generator endpoint to `true` or to the
+ * options to pass to `RpcChannel.generate`.
+ */
+export type RpcGeneratorSpec<T> = {
+  [K in keyof T]?: T[K] extends AnyFunction
+    ? ReturnType<T[K]> extends AsyncIterableLike
+      ? true | RpcGenerateOpts
+      : never
+    : RpcGeneratorSpec<T[K]>
+}
+
+/**
+ * The server side of the contract `T`. Each function receives the
+ * `RpcCallContext` before its arguments.
+ */
+export type RpcImplementation<T> = {
+  [K in keyof T]: T[K] extends (...args: infer A) => infer R
+    ? (
+        ctx: RpcCallContext,
+        ...args: A
+      ) => R extends AsyncGenerator<infer Y, infer Ret, infer N>
+        ? AsyncGenerator<Y, Ret, N>
+        : R extends AsyncIterable<infer Y>
+        ? AsyncIterable<Y>
+        : Unpromise<R> | Promise<Unpromise<R>>
+    : RpcImplementation<T[K]>
+}
+
+/**
+ * Creates a proxy that calls the endpoints of contract `T` over `channel`.
+ * @param channel The channel to call over
+ * @param generators Marks which endpoints are generators
+ * @param prefix An address to prepend to all endpoints
+ */
+export function createTypedClient<T>(
+  channel: RpcChannel,
+  generators: RpcGeneratorSpec<T> = {},
+  prefix: MultistringAddress = []
+): TypedRpcClient<T> {
+  function createAccessor(addr: string[], spec: unknown): unknown {
+    const dummyFunction = () => undefined
+    return new Proxy(dummyFunction, {
+      apply(func, target, args: SerializableData[]) {
+        // Namespaces are never called, so an object here must be options
+        if (spec === true) {
+          return channel.generate(addr, args)
+        } else if (spec && typeof spec === 'object') {
+          return channel.generate(addr, args, spec as RpcGenerateOpts)
+        }
+        return channel.call(addr, args)
+      },
+      get(target, prop) {
+        if (typeof prop !== 'string') {
+          return undefined
+        }
+        const child =
+          spec && typeof spec === 'object'
+            ? (spec as { [key: string]: unknown })[prop]
+            : undefined
+        return createAccessor([...addr, prop], child)
+      }
+    })
+  }
+  return createAccessor(prefix, generators) as TypedRpcClient<T>
+}
+
+/**
+ * Registers every function in `impl` at the address given by its path in the
+ * object. Only own enumerable properties are registered, so this is intended
+ * for object literals. Wildcard endpoints must be registered separately.
+ * @param reg Where to register the functions
+ * @param impl The implementation of contract `T`
+ * @param prefix An address to prepend to all endpoints
+ */
+export function implement<T>(
+  reg: HandleRegistry,
+  impl: RpcImplementation<T>,
+  prefix: MultistringAddress = []
+): void {
+  const obj = (impl as unknown) as { [key: string]: unknown }
+  for (const k of Object.keys(obj)) {
+    const value = obj[k]
+    if (typeof value === 'function') {
+      const func = value as RpcContextFunction
+      const wrapped: RpcContextFunction = (ctx, ...args) =>
+        func.apply(obj, [ctx, ...args])
+      copyFunctionMetadata(
+        (func as unknown) as RpcFunction,
+        (wrapped as unknown) as RpcFunction
+      )
+      reg.register([...prefix, k], UseCallContext(wrapped))
+    } else if (value && typeof value === 'object') {
+      implement(reg, value as RpcImplementation<unknown>, [...prefix, k])
+    }
+  }
+}
@@ -6,5 +6,12 @@ function isDefined(val: any): boolean {
 function isUndef(val: any): boolean {
   return !isDefined(val)
 }
+/**
+ * A random ID that is unlikely to be used twice, even across restarts. This is
+ * not suitable for secrets.
+ */
+function randomId(): string {
+  return `${Date.now().toString(36)}.${Math.random().toString(36).slice(2)}`
+}
 
-export { isDefined, isUndef }
+export { isDefined, isUndef, randomId }
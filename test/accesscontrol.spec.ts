@@ -14,7 +14,8 @@ import {
   CanCallFunction,
   OptAccessPolicy,
   RequirePermissions,
-  SetCanCallFunc
+  SetCanCallFunc,
+  collectPermissions
 } from '../src/index'
 
 describe('[accesscontrol.ts] RequirePermissions', () => {
@@ -263,4 +264,20 @@ describe('[accesscontrol.ts] AutoFunctionAccessController', () => {
     expect(ac.can(['com', 'kb1rd', 'test'], opts))
       .to.be.equal(OptAccessPolicy.NONE)
   })
-})
\ No newline at end of file
+})
+describe('[accesscontrol.ts] collectPermissions', () => {
+  it('returns empty set for undefined controller', () => {
+    expect([...collectPermissions(undefined)]).to.be.deep.equal([])
+  })
+  it('collects permissions from nested controllers', () => {
+    const inner = new ChainedAccessController()
+    inner.access_chain.push(new AutoFunctionAccessController(new Set(['b'])))
+    const outer = new ChainedAccessController()
+    outer.access_chain.push(
+      new AutoFunctionAccessController(new Set(['a'])),
+      new AllowAccessController(),
+      inner
+    )
+    expect([...collectPermissions(outer)]).to.be.deep.equal(['a', 'b'])
+  })
+})
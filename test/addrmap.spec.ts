@@ -105,6 +105,22 @@ describe('[addrmap.ts] AddressMap', () => {
         ['deeply', 'nested', 'maybe undefined', 'wildcard']
       )
     })
+    it('does not allow prototype to be changed', () => {
+      map.put(['__proto__', 'constructor'], 1)
+      expect(Object.getPrototypeOf(map.table)).to.be.equal(Object.prototype)
+      expect(({} as typeof map.table)[DefaultEntryKey]).to.be.undefined
+      expect(map.get(['__proto__', 'constructor'])).to.be.equal(1)
+      expect(map.get(['constructor'])).to.be.undefined
+    })
+  })
+  describe('clear', () => {
+    it('removes wildcards and default', () => {
+      map.put([], 2)
+      map.put([undefined], 6)
+      map.put(['a'], 5)
+      map.clear()
+      expect(map.table).to.be.deep.equal({})
+    })
   })
   describe('toString', () => {
     it('works', () => {
@@ -123,4 +139,30 @@ describe('[addrmap.ts] AddressMap', () => {
 ]`)
     })
   })
+  describe('entries', () => {
+    it('lists addresses with wildcards', () => {
+      map.put([], 2)
+      map.put(['a', undefined, 'c'], 4)
+      map.put(['a', 'b', 'c'], 3)
+      map.put(['a', 'b'], 1)
+      map.put(['a', 'b'], undefined)
+      expect(map.entries()).to.be.deep.equal([
+        [[], 2],
+        [['a', 'b', 'c'], 3],
+        [['a', null, 'c'], 4]
+      ])
+    })
+  })
+  describe('match', () => {
+    it('finds all matching values', () => {
+      map.put(['a', undefined], 1)
+      map.put(['a', 'b'], 2)
+      map.put([undefined, 'b'], 3)
+      map.put(['a', 'b', 'c'], 4)
+      map.put(['a'], 5)
+      expect(map.match(['a', 'b'])).to.be.deep.equal([2, 1, 3])
+      expect(map.match(['a', 'constructor'])).to.be.deep.equal([1])
+      expect(map.match(['b'])).to.be.deep.equal([])
+    })
+  })
 })
\ No newline at end of file
@@ -0,0 +1,208 @@
+import { expect } from 'chai'
+import {
+  JsonCodec,
+  JsonMessageCodec,
+  StructuredCloneCodec,
+  Proxied,
+  SerializableData,
+  SerializedData,
+  TypeRegistry
+} from '../src/index'
+
+describe('[codec.ts] StructuredCloneCodec', () => {
+  it('uses rpcSerialize', () => {
+    const codec = new StructuredCloneCodec()
+    const ab = new ArrayBuffer(2)
+    const xfer: Transferable[] = []
+    expect(codec.encode({ ab, n: 1n }, xfer)).to.be.deep.equal({ ab, n: 1n })
+    expect(xfer).to.be.deep.equal([ab])
+  })
+  it('passes decoded data through', () => {
+    const codec = new StructuredCloneCodec()
+    const data = { a: [1] }
+    expect(codec.decode(data)).to.be.equal(data)
+  })
+})
+
+describe('[codec.ts] JsonCodec', () => {
+  const codec = new JsonCodec()
+  const roundTrip = (data: unknown): unknown => {
+    const encoded = codec.encode(data as SerializableData, [])
+    return codec.decode(JSON.parse(JSON.stringify(encoded)))
+  }
+
+  it('passes through JSON types', () => {
+    const data = { a: [1, 'two', true, null], b: { c: 1.5 } }
+    expect(codec.encode(data, [])).to.be.deep.equal(data)
+    expect(roundTrip(data)).to.be.deep.equal(data)
+  })
+  it('restores undefined', () => {
+    expect(roundTrip([undefined, { a: undefined }])).to.be.deep.equal([
+      undefined,
+      { a: undefined }
+    ])
+    expect(roundTrip({ a: undefined })).to.have.property('a')
+  })
+  it('restores special numbers', () => {
+    const result = roundTrip([NaN, Infinity, -Infinity, -0]) as number[]
+    expect(result[0]).to.be.NaN
+    expect(result[1]).to.be.equal(Infinity)
+    expect(result[2]).to.be.equal(-Infinity)
+    expect(Object.is(result[3], -0)).to.be.true
+  })
+  it('restores BigInts', () => {
+    const big = BigInt('123456789012345678901234567890')
+    expect(roundTrip([big, -1n])).to.be.deep.equal([big, -1n])
+  })
+  it('restores Dates', () => {
+    const date = new Date(1600000000000)
+    const result = roundTrip(date) as Date
+    expect(result).to.be.an.instanceOf(Date)
+    expect(result.getTime()).to.be.equal(date.getTime())
+    expect((roundTrip(new Date(NaN)) as Date).getTime()).to.be.NaN
+  })
+  it('restores RegExps', () => {
+    const result = roundTrip(/a+b/gi) as RegExp
+    expect(result).to.be.an.instanceOf(RegExp)
+    expect(result.source).to.be.equal('a+b')
+    expect(result.flags).to.be.equal('gi')
+  })
+  it('restores Maps and Sets', () => {
+    const map = new Map<unknown, unknown>([
+      [1n, 'big'],
+      ['set', new Set([1, undefined])]
+    ])
+    const result = roundTrip(map) as Map<unknown, unknown>
+    expect(result).to.be.an.instanceOf(Map)
+    expect(result.get(1n)).to.be.equal('big')
+    const set = result.get('set') as Set<unknown>
+    expect(set).to.be.an.instanceOf(Set)
+    expect([...set]).to.be.deep.equal([1, undefined])
+  })
+  it('restores binary data', () => {
+    const types = [
+      new Int8Array([-1, 2]),
+      new Int16Array([-300, 2]),
+      new Int32Array([-70000]),
+      new BigInt64Array([-1n]),
+      new Uint8Array([]),
+      new Uint8Array([1]),
+      new Uint8Array([1, 2]),
+      new Uint8Array([1, 2, 3]),
+      new Uint8ClampedArray([255, 0]),
+      new Uint16Array([65535]),
+      new Uint32Array([4294967295]),
+      new BigUint64Array([BigInt('18446744073709551615')]),
+      new Float32Array([1.5]),
+      new Float64Array([Math.PI])
+    ]
+    types.forEach((array) => {
+      const result = roundTrip(array)
+      expect(result).to.be.an.instanceOf(array.constructor)
+      expect(result).to.be.deep.equal(array)
+    })
+    const ab = new Uint8Array([250, 251, 252, 253]).buffer
+    const result = roundTrip(ab) as ArrayBuffer
+    expect(result).to.be.an.instanceOf(ArrayBuffer)
+    expect([...new Uint8Array(result)]).to.be.deep.equal([250, 251, 252, 253])
+  })
+  it('only encodes viewed part of typed arrays', () => {
+    const array = new Uint8Array([1, 2, 3, 4]).subarray(1, 3)
+    expect(roundTrip(array)).to.be.deep.equal(new Uint8Array([2, 3]))
+    const view = new DataView(new Uint8Array([1, 2, 3]).buffer, 1)
+    const result = roundTrip(view) as DataView
+    expect(result).to.be.an.instanceOf(DataView)
+    expect(result.getUint8(0)).to.be.equal(2)
+    expect(result.byteLength).to.be.equal(2)
+  })
+  it('restores Errors', () => {
+    const result = roundTrip(new TypeError('yeet')) as Error
+    expect(result).to.be.an.instanceOf(Error)
+    expect(result.name).to.be.equal('TypeError')
+    expect(result.message).to.be.equal('yeet')
+    expect(result.stack).to.be.equal(
+      'Stack trace redacted for security reasons'
+    )
+  })
+  it('escapes objects with type key', () => {
+    const data = { $t: 'bigint', v: '1' }
+    expect(roundTrip(data)).to.be.deep.equal(data)
+    expect(roundTrip({ a: { $t: 'undefined' } })).to.be.deep.equal({
+      a: { $t: 'undefined' }
+    })
+  })
+  it('sends class instances as plain objects', () => {
+    class Test {
+      a = 1n
+    }
+    expect(roundTrip(new Test())).to.be.deep.equal({ a: 1n })
+  })
+  it('uses type registry', () => {
+    class Id {
+      constructor(public id: bigint) {}
+    }
+    const types = new TypeRegistry().register(
+      'Id',
+      Id,
+      (i) => i.id,
+      (d) => new Id(d as bigint)
+    )
+    const id = (new Id(1n) as unknown) as SerializableData
+    const encoded = codec.encode([id], [], undefined, { types })
+    const result = (types.revive(
+      codec.decode(JSON.parse(JSON.stringify(encoded)))
+    ) as unknown) as Id[]
+    expect(result[0]).to.be.an.instanceOf(Id)
+    expect(result[0].id).to.be.equal(1n)
+    const lookalike = { rpc_type: 'Id', value: [undefined, 1n] }
+    expect(
+      types.revive(
+        codec.decode(codec.encode(lookalike, [], undefined, { types }))
+      )
+    ).to.be.deep.equal(lookalike)
+  })
+  it('uses proxy function', () => {
+    const func = Proxied(() => undefined)
+    expect(codec.encode([func], [], () => 'ref')).to.be.deep.equal(['ref'])
+  })
+  it('throws when given functions or symbols', () => {
+    expect(() =>
+      codec.encode(((() => undefined) as unknown) as SerializableData, [])
+    ).to.throw('Functions cannot be serialized')
+    expect(() =>
+      codec.encode((Symbol('hi') as unknown) as SerializableData, [])
+    ).to.throw('Symbols cannot be serialized')
+  })
+  it('throws when given transferables that cannot be copied', () => {
+    const { port1, port2 } = new MessageChannel()
+    expect(() => codec.encode(port1, [])).to.throw(
+      'Cannot encode MessagePort as JSON'
+    )
+    port1.close()
+    port2.close()
+  })
+  it('throws on unknown tags', () => {
+    expect(() => codec.decode({ $t: 'yeet' })).to.throw('Unknown type tag yeet')
+    expect(() =>
+      codec.decode({ $t: 'bytes', c: 'Array', v: '' } as SerializedData)
+    ).to.throw('Unknown binary type Array')
+    expect(() => codec.decode({ $t: 'bytes', v: 'a' })).to.throw(
+      'Invalid base64 data'
+    )
+  })
+})
+
+describe('[codec.ts] JsonMessageCodec', () => {
+  it('encodes messages as JSON', () => {
+    const codec = new JsonMessageCodec()
+    const msg = { to: ['net', 'kb1rd', 'hello'], args: [1] }
+    expect(codec.encode(msg)).to.be.equal(JSON.stringify(msg))
+    expect(codec.decode(JSON.stringify(msg))).to.be.deep.equal(msg)
+    expect(
+      codec.decode(new TextEncoder().encode(JSON.stringify(msg)))
+    ).to.be.deep.equal(msg)
+  })
+  it('suggests JsonCodec', () => {
+    expect(new JsonMessageCodec().codec).to.be.an.instanceOf(JsonCodec)
+  })
+})
@@ -0,0 +1,51 @@
+import { expect } from 'chai'
+import {
+  AddressMap,
+  RpcFunction,
+  RpcEndpointInfo,
+  RpcReturnsGenerator,
+  RequiresPermissions,
+  EnforceArgumentSchema,
+  describeEndpoints,
+  findEndpoint
+} from '../src/index'
+
+describe('[discovery.ts] describeEndpoints', () => {
+  it('describes functions', () => {
+    const map = new AddressMap<RpcFunction>()
+    const schema = { type: 'array', items: [{ type: 'number' }] }
+    map.put(
+      ['net', 'kb1rd', 'add'],
+      EnforceArgumentSchema(schema, () => 1)
+    )
+    const count: RpcFunction = () => undefined
+    count[RpcReturnsGenerator] = true
+    count[RequiresPermissions] = new Set(['count'])
+    map.put(['net', undefined, 'count'], count)
+    expect(describeEndpoints(map)).to.be.deep.equal([
+      { address: ['net', 'kb1rd', 'add'], returns: 'promise', schema },
+      {
+        address: ['net', null, 'count'],
+        returns: 'generator',
+        permissions: ['count']
+      }
+    ])
+  })
+})
+
+describe('[discovery.ts] findEndpoint', () => {
+  it('prefers exact parts over wildcards', () => {
+    const wildcard: RpcEndpointInfo = {
+      address: ['net', null],
+      returns: 'promise'
+    }
+    const exact: RpcEndpointInfo = {
+      address: ['net', 'kb1rd'],
+      returns: 'promise'
+    }
+    const endpoints = [wildcard, exact]
+    expect(findEndpoint(endpoints, ['net', 'kb1rd'])).to.be.equal(exact)
+    expect(findEndpoint(endpoints, ['net', 'example'])).to.be.equal(wildcard)
+    expect(findEndpoint(endpoints, ['org'])).to.be.undefined
+  })
+})
@@ -0,0 +1,160 @@
+import { expect } from 'chai'
+import Ajv from 'ajv'
+import {
+  ErrorRegistry,
+  ForwardedError,
+  AccessDeniedError,
+  RpcError,
+  RpcErrorCode,
+  RpcNotFoundError,
+  RpcInvalidArgumentsError,
+  RpcInternalError,
+  RpcTimeoutError,
+  RpcCancelledError,
+  RpcChannelClosedError,
+  RpcIncompatibleError,
+  RpcProtocolError,
+  default_errors,
+  serializeError,
+  rpcSerialize,
+  SerializableData
+} from '../src/index'
+
+class HttpError extends Error {
+  readonly name = 'HttpError'
+  constructor(message: string, public code: number) {
+    super(message)
+  }
+}
+
+const serialize = (d: SerializableData) => rpcSerialize(d, [])
+
+describe('[errors.ts] ErrorRegistry', () => {
+  it('revives registered errors without calling the constructor', () => {
+    const errors = new ErrorRegistry().register(HttpError)
+    const error = errors.revive({
+      name: 'HttpError',
+      message: 'Not found',
+      code: 404
+    }) as HttpError
+    expect(error).to.be.an.instanceOf(HttpError)
+    expect(error.message).to.be.equal('Not found')
+    expect(error.code).to.be.equal(404)
+  })
+  it('revives unknown errors as ForwardedError', () => {
+    const error = new ErrorRegistry().revive({ name: 'What', message: 'hi' })
+    expect(error).to.be.an.instanceOf(ForwardedError)
+    expect(error.name).to.be.equal('What')
+  })
+  it('uses default registry as parent', () => {
+    const errors = new ErrorRegistry()
+    expect(errors.parent).to.be.equal(default_errors)
+    expect(errors.revive({ name: 'TypeError' })).to.be.an.instanceOf(TypeError)
+    expect(errors.revive({ name: 'AccessDeniedError' })).to.be.an.instanceOf(
+      AccessDeniedError
+    )
+    expect(
+      new ErrorRegistry(null).revive({ name: 'TypeError' })
+    ).to.be.an.instanceOf(ForwardedError)
+  })
+  it('revives causes', () => {
+    const errors = new ErrorRegistry().register(HttpError)
+    const error = errors.revive({
+      name: 'Error',
+      message: 'Request failed',
+      cause: { name: 'HttpError', message: 'Not found', code: 404 }
+    }) as Error & { cause: HttpError }
+    expect(error).to.be.an.instanceOf(Error)
+    expect(error.cause).to.be.an.instanceOf(HttpError)
+    expect(error.cause.code).to.be.equal(404)
+  })
+  it('does not allow prototype to be changed', () => {
+    const data = JSON.parse('{"name": "TypeError", "__proto__": {"a": 1}}')
+    const error = new ErrorRegistry().revive(data)
+    expect(Object.getPrototypeOf(error)).to.be.equal(TypeError.prototype)
+  })
+  it('finds names of registered classes', () => {
+    const errors = new ErrorRegistry().register(HttpError, 'Http')
+    expect(errors.nameOf(new HttpError('', 500))).to.be.equal('Http')
+    expect(errors.get('Http')).to.be.equal(HttpError)
+    expect(errors.nameOf(new RangeError())).to.be.equal('RangeError')
+    expect(errors.unregister('Http')).to.be.true
+    expect(errors.unregister('Http')).to.be.false
+    expect(errors.nameOf(new HttpError('', 500))).to.be.undefined
+  })
+  it('throws if name is reused', () => {
+    const errors = new ErrorRegistry().register(HttpError)
+    expect(() => errors.register(RangeError, 'HttpError')).to.throw(
+      'Error HttpError is already registered'
+    )
+  })
+})
+
+describe('[errors.ts] serializeError', () => {
+  it('sends custom properties', () => {
+    const result = serializeError(new HttpError('Not found', 404), serialize)
+    expect(result).to.be.deep.equal({
+      name: 'HttpError',
+      message: 'Not found',
+      stack: 'Stack trace redacted for security reasons',
+      code: 404,
+      columnNumber: undefined,
+      lineNumber: undefined,
+      fileName: undefined
+    })
+  })
+  it('sends causes', () => {
+    const error = new Error('Request failed')
+    Object.defineProperty(error, 'cause', {
+      value: new HttpError('Not found', 404),
+      enumerable: false
+    })
+    const result = serializeError(error, serialize) as {
+      cause: { [key: string]: unknown }
+    }
+    expect(result.cause.name).to.be.equal('HttpError')
+    expect(result.cause.code).to.be.equal(404)
+  })
+  it('follows stack policy', () => {
+    const error = new Error('yeet')
+    expect(
+      serializeError(error, serialize, default_errors, 'send').stack
+    ).to.be.equal(error.stack)
+    expect(
+      serializeError(error, serialize, default_errors, 'omit')
+    ).to.not.have.property('stack')
+  })
+  it('uses registered name for Ajv errors', () => {
+    const result = serializeError(new Ajv.ValidationError([]), serialize)
+    expect(result.name).to.be.equal('ValidationError')
+    expect(result.errors).to.be.deep.equal([])
+    const error = default_errors.revive(result)
+    expect(error).to.be.an.instanceOf(Ajv.ValidationError)
+  })
+})
+
+describe('[errors.ts] RpcError', () => {
+  it('has a code for each class', () => {
+    const classes: [new (message: string) => RpcError, RpcErrorCode][] = [
+      [RpcNotFoundError, RpcErrorCode.NOT_FOUND],
+      [AccessDeniedError, RpcErrorCode.ACCESS_DENIED],
+      [RpcInvalidArgumentsError, RpcErrorCode.INVALID_ARGUMENTS],
+      [RpcInternalError, RpcErrorCode.INTERNAL],
+      [RpcTimeoutError, RpcErrorCode.TIMEOUT],
+      [RpcCancelledError, RpcErrorCode.CANCELLED],
+      [RpcChannelClosedError, RpcErrorCode.CHANNEL_CLOSED],
+      [RpcIncompatibleError, RpcErrorCode.INCOMPATIBLE],
+      [RpcProtocolError, RpcErrorCode.INVALID_MESSAGE]
+    ]
+    classes.forEach(([type, code]) => {
+      const error = new type('hi')
+      expect(error).to.be.an.instanceOf(RpcError)
+      expect(error.code).to.be.equal(code)
+      const data = serializeError(error, serialize)
+      expect(data.code).to.be.equal(code)
+      const revived = default_errors.revive(data) as RpcError
+      expect(revived).to.be.an.instanceOf(type)
+      expect(revived.code).to.be.equal(code)
+    })
+  })
+})
@@ -0,0 +1,76 @@
+import { expect } from 'chai'
+import {
+  RpcHello,
+  RpcIncompatibleError,
+  negotiate,
+  isHello
+} from '../src/index'
+
+const hello = (h: Partial<RpcHello> = {}): RpcHello => ({
+  protocol: 1,
+  min_protocol: 1,
+  features: ['generators', 'cancellation'],
+  ...h
+})
+
+describe('[handshake.ts] negotiate', () => {
+  it('uses newest common protocol and common features', () => {
+    const remote = hello({ protocol: 3, features: ['generators', 'yeet'] })
+    const result = negotiate(hello({ protocol: 2 }), remote)
+    expect(result).to.be.deep.equal({
+      protocol: 2,
+      features: ['generators'],
+      remote
+    })
+  })
+  it('throws if there is no common protocol', () => {
+    expect(() =>
+      negotiate(hello(), hello({ protocol: 3, min_protocol: 2 }))
+    ).to.throw(
+      RpcIncompatibleError,
+      'Incompatible protocol versions: local 1-1, remote 2-3'
+    )
+  })
+  it('throws if codecs differ', () => {
+    expect(() =>
+      negotiate(hello({ codec: 'json' }), hello({ codec: 'structured_clone' }))
+    ).to.throw(
+      RpcIncompatibleError,
+      'Incompatible codecs: local json, remote structured_clone'
+    )
+    expect(() => negotiate(hello({ codec: 'json' }), hello())).to.not.throw()
+  })
+  it('throws if required features are missing', () => {
+    expect(() =>
+      negotiate(hello(), hello(), {
+        required_features: ['generators', 'compression', 'yeet']
+      })
+    ).to.throw(
+      RpcIncompatibleError,
+      'Remote does not support required features: compression, yeet'
+    )
+  })
+  it('checks application version', () => {
+    const accept_app_version = (v?: string) => v === '2.0.0'
+    expect(
+      negotiate(hello(), hello({ app_version: '2.0.0' }), {
+        accept_app_version
+      }).remote.app_version
+    ).to.be.equal('2.0.0')
+    expect(() =>
+      negotiate(hello(), hello({ app_version: '1.0.0' }), {
+        accept_app_version
+      })
+    ).to.throw(RpcIncompatibleError, 'Incompatible application version: 1.0.0')
+  })
+})
+
+describe('[handshake.ts] isHello', () => {
+  it('validates hellos', () => {
+    expect(isHello(hello({ app_version: '1' }))).to.be.true
+    expect(isHello(null)).to.be.false
+    expect(isHello({ ...hello(), protocol: '1' })).to.be.false
+    expect(isHello({ ...hello(), features: [1] })).to.be.false
+    expect(isHello({ ...hello(), app_version: 1 })).to.be.false
+  })
+})
@@ -0,0 +1,41 @@
+import { expect } from 'chai'
+import { IdempotencyCache, SerializableData } from '../src/index'
+
+const delay = (ms = 5) => new Promise((r) => setTimeout(r, ms))
+
+describe('[idempotency.ts] IdempotencyCache', () => {
+  it('remembers results by address and key', async () => {
+    const cache = new IdempotencyCache()
+    cache.set(['net', 'kb1rd', 'pay'], 'a', Promise.resolve(1))
+    expect(await cache.get(['net', 'kb1rd', 'pay'], 'a')).to.be.equal(1)
+    expect(cache.get(['net', 'kb1rd', 'pay'], 'b')).to.be.undefined
+    expect(cache.get(['net', 'kb1rd', 'refund'], 'a')).to.be.undefined
+    expect(cache.delete(['net', 'kb1rd', 'pay'], 'a')).to.be.true
+    expect(cache.size).to.be.equal(0)
+  })
+  it('forgets the least recently used result', () => {
+    const cache = new IdempotencyCache(2)
+    cache.set(['a'], 'k', Promise.resolve(1))
+    cache.set(['b'], 'k', Promise.resolve(2))
+    cache.get(['a'], 'k')
+    cache.set(['c'], 'k', Promise.resolve(3))
+    expect(cache.size).to.be.equal(2)
+    expect(cache.get(['a'], 'k')).to.not.be.undefined
+    expect(cache.get(['b'], 'k')).to.be.undefined
+    expect(cache.get(['c'], 'k')).to.not.be.undefined
+  })
+  it('forgets results after ttl', async () => {
+    const cache = new IdempotencyCache(10, 1)
+    cache.set(['a'], 'k', Promise.resolve(1))
+    await delay()
+    expect(cache.get(['a'], 'k')).to.be.undefined
+    expect(cache.size).to.be.equal(0)
+  })
+  it('remembers errors', async () => {
+    const cache = new IdempotencyCache()
+    cache.set(['a'], 'k', Promise.reject(new Error('Card declined')))
+    const result = cache.get(['a'], 'k') as Promise<SerializableData>
+    const error = await result.catch((e: Error) => e)
+    expect((error as Error).message).to.be.equal('Card declined')
+  })
+})
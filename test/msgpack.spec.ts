@@ -0,0 +1,309 @@
+import { expect } from 'chai'
+import {
+  encodeMsgpack,
+  decodeMsgpack,
+  MsgpackMessageCodec,
+  MessageCodec,
+  RpcMessage,
+  SerializedData
+} from '../src/index'
+
+const bytes = (...b: number[]) => new Uint8Array(b)
+const roundTrip = (data: SerializedData) => decodeMsgpack(encodeMsgpack(data))
+
+/**
+ * A small seeded PRNG (mulberry32) so that failures can be reproduced
+ */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function randomData(rand: () => number, depth = 0): SerializedData {
+  const int = (max: number) => Math.floor(rand() * max)
+  const string = () =>
+    String.fromCodePoint(
+      ...Array.from({ length: int(40) }, () =>
+        rand() < 0.8 ? 0x20 + int(0x60) : int(0xd7ff)
+      )
+    )
+  const numbers = [
+    0,
+    -0,
+    NaN,
+    Infinity,
+    -Infinity,
+    Number.MAX_SAFE_INTEGER,
+    Number.MIN_SAFE_INTEGER,
+    Number.MAX_VALUE,
+    Number.EPSILON
+  ]
+  switch (int(depth > 3 ? 8 : 11)) {
+    case 0:
+      return undefined
+    case 1:
+      return rand() < 0.5 ? null : rand() < 0.5
+    case 2:
+      return numbers[int(numbers.length)]
+    case 3:
+      // Integers of all sizes, including both sides of each format boundary
+      return Math.floor((rand() - 0.5) * Math.pow(2, int(54)))
+    case 4:
+      return (rand() - 0.5) * Math.pow(10, int(40) - 20)
+    case 5:
+      return BigInt(Math.floor((rand() - 0.5) * 2 ** 53)) * BigInt(int(1e6))
+    case 6:
+      return string()
+    case 7: {
+      const length = int(300)
+      switch (int(5)) {
+        case 0:
+          return new Uint8Array(length).map(() => int(256))
+        case 1:
+          return new Int16Array(length).map(() => int(65536) - 32768)
+        case 2:
+          return new Float32Array(length).map(() => rand())
+        case 3:
+          return new Float64Array(length).map(() => rand() * 1e10)
+        default:
+          return new BigInt64Array(length).map(() => BigInt(int(1e9) - 5e8))
+      }
+    }
+    case 8:
+    case 9: {
+      const out: SerializedData[] = []
+      for (let i = int(20); i > 0; i--) {
+        out.push(randomData(rand, depth + 1))
+      }
+      return out
+    }
+    default: {
+      const out: { [key: string]: SerializedData } = {}
+      for (let i = int(20); i > 0; i--) {
+        out[string()] = randomData(rand, depth + 1)
+      }
+      return out
+    }
+  }
+}
+
+describe('[msgpack.ts] encodeMsgpack', () => {
+  it('uses standard formats', () => {
+    expect(encodeMsgpack(null)).to.be.deep.equal(bytes(0xc0))
+    expect(encodeMsgpack(true)).to.be.deep.equal(bytes(0xc3))
+    expect(encodeMsgpack(127)).to.be.deep.equal(bytes(0x7f))
+    expect(encodeMsgpack(-1)).to.be.deep.equal(bytes(0xff))
+    expect(encodeMsgpack(256)).to.be.deep.equal(bytes(0xcd, 1, 0))
+    expect(encodeMsgpack(-129)).to.be.deep.equal(bytes(0xd1, 0xff, 0x7f))
+    expect(encodeMsgpack(0.5)).to.be.deep.equal(
+      bytes(0xcb, 0x3f, 0xe0, 0, 0, 0, 0, 0, 0)
+    )
+    expect(encodeMsgpack('a')).to.be.deep.equal(bytes(0xa1, 0x61))
+    expect(encodeMsgpack('a'.repeat(32)).slice(0, 2)).to.be.deep.equal(
+      bytes(0xd9, 32)
+    )
+    expect(encodeMsgpack([1, { a: 2 }])).to.be.deep.equal(
+      bytes(0x92, 1, 0x81, 0xa1, 0x61, 2)
+    )
+    expect(encodeMsgpack(bytes(1, 2))).to.be.deep.equal(bytes(0xc4, 2, 1, 2))
+  })
+  it('uses extension types', () => {
+    expect(encodeMsgpack(undefined)).to.be.deep.equal(bytes(0xd4, 0, 0))
+    expect(encodeMsgpack(-1n)).to.be.deep.equal(bytes(0xd4, 1, 0xff))
+    expect(encodeMsgpack(128n)).to.be.deep.equal(bytes(0xd5, 1, 0, 0x80))
+    expect(encodeMsgpack(new ArrayBuffer(0))).to.be.deep.equal(
+      bytes(0xd4, 2, 0)
+    )
+  })
+  it('throws when given types that cannot be encoded', () => {
+    const { port1, port2 } = new MessageChannel()
+    expect(() => encodeMsgpack(port1)).to.throw(
+      'Cannot encode MessagePort as MessagePack'
+    )
+    port1.close()
+    port2.close()
+    expect(() =>
+      encodeMsgpack(((() => undefined) as unknown) as SerializedData)
+    ).to.throw('Cannot encode function as MessagePack')
+  })
+})
+
+describe('[msgpack.ts] decodeMsgpack', () => {
+  it('round trips basic types', () => {
+    const data = {
+      a: [undefined, null, true, false, 0, -0, 1.5, NaN, -Infinity],
+      b: 'hello 👋',
+      c: { nested: [[]] },
+      d: BigInt('-18446744073709551617')
+    }
+    expect(roundTrip(data)).to.be.deep.equal(data)
+  })
+  it('round trips binary types', () => {
+    const types = [
+      new Int8Array([-1, 2]),
+      new Int16Array([-300, 2]),
+      new Int32Array([-70000]),
+      new BigInt64Array([-1n]),
+      new Uint8Array([1, 2, 3]),
+      new Uint8ClampedArray([255, 0]),
+      new Uint16Array([65535]),
+      new Uint32Array([4294967295]),
+      new BigUint64Array([BigInt('18446744073709551615')]),
+      new Float32Array([1.5]),
+      new Float64Array([Math.PI])
+    ]
+    types.forEach((array) => {
+      const result = roundTrip(array)
+      expect(result).to.be.an.instanceOf(array.constructor)
+      expect(result).to.be.deep.equal(array)
+    })
+    const ab = bytes(250, 251, 252).buffer
+    const result = roundTrip(ab) as ArrayBuffer
+    expect(result).to.be.an.instanceOf(ArrayBuffer)
+    expect([...new Uint8Array(result)]).to.be.deep.equal([250, 251, 252])
+    const view = (roundTrip(
+      (new DataView(ab, 1) as unknown) as SerializedData
+    ) as unknown) as DataView
+    expect(view).to.be.an.instanceOf(DataView)
+    expect(view.byteLength).to.be.equal(2)
+    expect(view.getUint8(0)).to.be.equal(251)
+  })
+  it('only encodes viewed part of typed arrays', () => {
+    const array = new Uint16Array([1, 2, 3, 4]).subarray(1, 3)
+    expect(roundTrip(array)).to.be.deep.equal(new Uint16Array([2, 3]))
+  })
+  it('reads formats not produced by the encoder', () => {
+    expect(decodeMsgpack(bytes(0xca, 0x3f, 0xc0, 0, 0))).to.be.equal(1.5)
+    expect(decodeMsgpack(bytes(0xcf, 0, 0, 0, 0, 0, 0, 0, 1))).to.be.equal(1)
+    expect(
+      decodeMsgpack(bytes(0xcf, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff))
+    ).to.be.equal(BigInt('18446744073709551615'))
+    expect(
+      decodeMsgpack(bytes(0xd3, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff))
+    ).to.be.equal(-1)
+    expect(decodeMsgpack(bytes(0xdc, 0, 1, 0xc0))).to.be.deep.equal([null])
+    expect(decodeMsgpack(bytes(0xde, 0, 1, 0xa1, 0x61, 1))).to.be.deep.equal({
+      a: 1
+    })
+  })
+  it('round trips large values', () => {
+    const data = {
+      array: new Array(70000).fill(1),
+      object: Object.fromEntries(
+        Array.from({ length: 300 }, (_, i) => [`k${i}`, i])
+      ),
+      str16: 'a'.repeat(300),
+      str32: 'b'.repeat(70000),
+      bin16: new Uint8Array(300).fill(2),
+      bin32: new Uint8Array(70000).fill(3)
+    }
+    expect(roundTrip(data)).to.be.deep.equal(data)
+  })
+  it('does not allow prototype to be changed', () => {
+    const data = JSON.parse('{"__proto__": {"polluted": true}}')
+    const result = roundTrip(data) as { [key: string]: unknown }
+    expect(Object.getPrototypeOf(result)).to.be.equal(Object.prototype)
+    expect(result.polluted).to.be.undefined
+    expect(Object.keys(result)).to.be.deep.equal(['__proto__'])
+  })
+  it('throws on invalid data', () => {
+    expect(() => decodeMsgpack(bytes())).to.throw(
+      'Unexpected end of MessagePack data'
+    )
+    expect(() => decodeMsgpack(bytes(0xc1))).to.throw(
+      'Invalid MessagePack type 193'
+    )
+    expect(() => decodeMsgpack(bytes(0xc0, 0xc0))).to.throw(
+      'Unexpected data after MessagePack value'
+    )
+    expect(() => decodeMsgpack(bytes(0x81, 1, 1))).to.throw(
+      'MessagePack map keys must be strings'
+    )
+    expect(() => decodeMsgpack(bytes(0xd4, 9, 0))).to.throw(
+      'Unknown MessagePack extension type 9'
+    )
+    expect(() => decodeMsgpack(bytes(0xd4, 2, 99))).to.throw(
+      'Unknown MessagePack binary type 99'
+    )
+    expect(() => decodeMsgpack(bytes(0xc7, 0, 1))).to.throw(
+      'Invalid MessagePack BigInt'
+    )
+  })
+  it('does not allocate huge arrays for short data', () => {
+    expect(() => decodeMsgpack(bytes(0xdd, 0xff, 0xff, 0xff, 0xff))).to.throw(
+      'Unexpected end of MessagePack data'
+    )
+    expect(() => decodeMsgpack(bytes(0xc6, 0xff, 0xff, 0xff, 0xff))).to.throw(
+      'Unexpected end of MessagePack data'
+    )
+  })
+})
+
+describe('[msgpack.ts] fuzz', () => {
+  it('round trips random data', () => {
+    const rand = random(1)
+    for (let i = 0; i < 300; i++) {
+      const data = randomData(rand)
+      expect(roundTrip(data)).to.be.deep.equal(data)
+    }
+  })
+  it('throws on every truncation of valid data', () => {
+    const rand = random(2)
+    for (let i = 0; i < 30; i++) {
+      const encoded = encodeMsgpack([randomData(rand)])
+      for (let end = 0; end < Math.min(encoded.length, 200); end++) {
+        expect(() => decodeMsgpack(encoded.slice(0, end))).to.throw()
+      }
+    }
+  })
+  it('only throws errors on random data', () => {
+    const rand = random(3)
+    for (let i = 0; i < 5000; i++) {
+      const data = new Uint8Array(1 + Math.floor(rand() * 64)).map(() =>
+        Math.floor(rand() * 256)
+      )
+      try {
+        decodeMsgpack(data)
+      } catch (e) {
+        expect(e).to.be.an.instanceOf(Error)
+      }
+    }
+  })
+})
+
+describe('[msgpack.ts] MsgpackMessageCodec', () => {
+  const codec: MessageCodec = new MsgpackMessageCodec()
+  it('round trips messages', () => {
+    const msg: RpcMessage = {
+      to: ['net', 'kb1rd', 'hello'],
+      args: [1n, new Float64Array([1.5]), undefined],
+      return_addr: ['net', 'kb1rd', 'ret'],
+      return_type: 'promise'
+    }
+    const encoded = codec.encode(msg)
+    expect(encoded).to.be.an.instanceOf(Uint8Array)
+    expect(codec.decode(encoded)).to.be.deep.equal(msg)
+  })
+  it('is smaller than JSON', () => {
+    const msg: RpcMessage = {
+      to: ['net', 'kb1rd', 'telemetry'],
+      args: [{ temperature: 21.5, pressure: 101325, ok: true }]
+    }
+    expect(codec.encode(msg).length).to.be.lessThan(JSON.stringify(msg).length)
+  })
+  it('throws if message is not an object', () => {
+    expect(() => codec.decode(encodeMsgpack([]))).to.throw(
+      'Message is not an object'
+    )
+    expect(() => codec.decode('{}')).to.throw(
+      'MessagePack messages must be binary'
+    )
+  })
+  it('uses channel default codec', () => {
+    expect(codec.codec).to.be.undefined
+  })
+})
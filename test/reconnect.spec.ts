@@ -0,0 +1,261 @@
+import { expect } from 'chai'
+import {
+  ReconnectingChannel,
+  RpcChannel,
+  RpcChannelClosedError,
+  RpcCancelledError,
+  RpcHandlerRegistry,
+  RpcMessage,
+  RpcState,
+  Transport,
+  FunctionAccessController,
+  AccessDeniedError,
+  MultistringAddress,
+  SerializedData,
+  UseCallContext
+} from '../src/index'
+
+const delay = (ms = 5) => new Promise((r) => setTimeout(r, ms))
+
+describe('[reconnect.ts] ReconnectingChannel', () => {
+  let servers: RpcChannel[]
+  let server_reg: RpcHandlerRegistry
+  let client: ReconnectingChannel
+  /**
+   * Creates a transport connected to a new server channel
+   */
+  const connect = (): Transport => {
+    let onmessage: ((msg: RpcMessage) => void) | undefined
+    const server = new RpcChannel(
+      (msg) => setTimeout(() => onmessage && onmessage(msg as RpcMessage), 0),
+      undefined,
+      server_reg
+    )
+    servers.push(server)
+    return {
+      send: (msg) => setTimeout(() => server.receive(msg), 0),
+      listen(m, onclose) {
+        onmessage = m
+        server.once('close', () => setTimeout(onclose, 0))
+      },
+      close: () => server.close()
+    }
+  }
+  const current = () => servers[servers.length - 1]
+  const next = (event: string) =>
+    new Promise((r) => client.once(event, (...args) => r(args)))
+  beforeEach(() => {
+    servers = []
+    server_reg = new RpcHandlerRegistry()
+    client = new ReconnectingChannel(connect, undefined, { initial_delay: 1 })
+  })
+  afterEach(() => {
+    client.close()
+    servers.forEach((s) => s.close())
+  })
+  it('connects and calls', async () => {
+    server_reg.register(['net', 'kb1rd', 'add'], (c, w, x, y) => {
+      return (x as number) + (y as number)
+    })
+    client.register(['net', 'kb1rd', 'hi'], () => 'hello')
+    const result = client.call(['net', 'kb1rd', 'add'], [1, 2])
+    await client.start()
+    expect(client.connected).to.be.true
+    expect(await result).to.be.equal(3)
+    expect(await current().call(['net', 'kb1rd', 'hi'])).to.be.equal('hello')
+  })
+  it('reconnects with the same registry and access controller', async () => {
+    client.register(['net', 'kb1rd', 'hi'], () => 'hello')
+    client.access_controller = new FunctionAccessController((addr) =>
+      addr[2] === 'secret' ? false : undefined
+    )
+    client.register(['net', 'kb1rd', 'secret'], () => 'nope')
+    await client.start()
+    const first = client.channel as RpcChannel
+    const events: string[] = []
+    ;['disconnect', 'reconnecting', 'connect'].forEach((e) =>
+      client.on(e, () => events.push(e))
+    )
+    const reconnected = next('reconnect')
+    current().close()
+    expect(await reconnected).to.be.deep.equal([client.channel])
+    expect(events).to.be.deep.equal(['disconnect', 'reconnecting', 'connect'])
+    expect(first.state).to.be.equal(RpcState.CLOSED)
+    expect(servers.length).to.be.equal(2)
+    expect(await current().call(['net', 'kb1rd', 'hi'])).to.be.equal('hello')
+    const error = await current()
+      .call(['net', 'kb1rd', 'secret'])
+      .catch((e) => e)
+    expect(error).to.be.an.instanceOf(AccessDeniedError)
+  })
+  it('retries idempotent calls', async () => {
+    let calls = 0
+    server_reg.register(['net', 'kb1rd', 'get'], (c) => {
+      if (++calls === 1) {
+        c.close()
+        return new Promise(() => undefined)
+      }
+      return calls
+    })
+    await client.start()
+    expect(
+      await client.call(['net', 'kb1rd', 'get'], [], { idempotent: true })
+    ).to.be.equal(2)
+    calls = 0
+    const error = await client.call(['net', 'kb1rd', 'get']).catch((e) => e)
+    expect(error).to.be.an.instanceOf(RpcChannelClosedError)
+  })
+  it('sends the same idempotency key on every attempt', async () => {
+    const keys: (string | undefined)[] = []
+    server_reg.register(
+      ['net', 'kb1rd', 'get'],
+      UseCallContext((ctx) => {
+        keys.push(ctx.message.idempotency_key)
+        if (keys.length === 1) {
+          ctx.channel.close()
+          return new Promise(() => undefined)
+        }
+        return 'hi'
+      })
+    )
+    await client.start()
+    await client.call(['net', 'kb1rd', 'get'], [], { idempotent: true })
+    expect(keys.length).to.be.equal(2)
+    expect(keys[0]).to.be.a('string')
+    expect(keys[1]).to.be.equal(keys[0])
+  })
+  it('sends generators right away', async () => {
+    let started = false
+    server_reg.register(['net', 'kb1rd', 'count'], async function* () {
+      started = true
+      yield 1
+    })
+    await client.start()
+    const gen = client.generate(['net', 'kb1rd', 'count'])
+    await delay()
+    expect(started).to.be.true
+    expect(await gen.next()).to.be.deep.equal({ value: 1, done: false })
+    expect(await gen.return(undefined)).to.be.deep.equal({
+      value: undefined,
+      done: true
+    })
+  })
+  it('retries idempotent generators that have not yielded', async () => {
+    let calls = 0
+    server_reg.register(['net', 'kb1rd', 'count'], async function* (c) {
+      if (++calls === 1) {
+        c.close()
+        await new Promise(() => undefined)
+      }
+      yield 1
+      yield 2
+    })
+    await client.start()
+    const values: SerializedData[] = []
+    const gen = client.generate(['net', 'kb1rd', 'count'], [], {
+      idempotent: true
+    })
+    for await (const value of gen) {
+      values.push(value)
+    }
+    expect(values).to.be.deep.equal([1, 2])
+    expect(calls).to.be.equal(2)
+
+    calls = 0
+    const once = client.generate(['net', 'kb1rd', 'count'])
+    expect(await once.next()).to.be.deep.equal({
+      value: undefined,
+      done: true
+    })
+  })
+  it('does not retry generators that have finished', async () => {
+    let calls = 0
+    server_reg.register(['net', 'kb1rd', 'count'], async function* () {
+      calls++
+      return 'done'
+    })
+    await client.start()
+    const gen = client.generate(['net', 'kb1rd', 'count'], [], {
+      idempotent: true
+    })
+    // Wait until the generator has finished before closing the channel
+    while ((client.channel as RpcChannel).outgoing_streams) {
+      await delay(1)
+    }
+    const reconnected = next('reconnect')
+    current().close()
+    await reconnected
+    expect(await gen.next()).to.be.deep.equal({ value: 'done', done: true })
+    expect(calls).to.be.equal(1)
+  })
+  it('stops waiting for a channel when aborted', async () => {
+    const controller = new AbortController()
+    const { signal } = controller
+    const result = client
+      .call(['net', 'kb1rd', 'get'], [], { signal })
+      .catch((e) => e)
+    const gen = client.generate(['net', 'kb1rd', 'count'], [], { signal })
+    const first = gen.next().catch((e) => e)
+    controller.abort()
+    expect(await result).to.be.an.instanceOf(RpcCancelledError)
+    expect(await first).to.be.an.instanceOf(RpcCancelledError)
+  })
+  it('subscribes again after reconnecting', async () => {
+    const events: [MultistringAddress, SerializedData[]][] = []
+    await client.start()
+    const unsubscribe = await client.subscribe(
+      ['chat', undefined],
+      (topic, ...data) => {
+        events.push([topic, data])
+      }
+    )
+    expect(current().publish(['chat', 'a'], 1)).to.be.equal(1)
+    const reconnected = next('reconnect')
+    current().close()
+    await reconnected
+    await delay()
+    expect(current().publish(['chat', 'b'], 2)).to.be.equal(1)
+    await delay()
+    expect(events).to.be.deep.equal([
+      [['chat', 'a'], [1]],
+      [['chat', 'b'], [2]]
+    ])
+    unsubscribe()
+    await delay()
+    expect(current().publish(['chat', 'c'], 3)).to.be.equal(0)
+  })
+  it('backs off and gives up after max_attempts', async () => {
+    client = new ReconnectingChannel(
+      () => {
+        throw new Error('Connection refused')
+      },
+      undefined,
+      { initial_delay: 1, backoff_factor: 3, max_attempts: 3 }
+    )
+    const delays: number[] = []
+    const errors: Error[] = []
+    client.on('reconnecting', (attempt, ms) => delays.push(ms))
+    client.on('connecterror', (e) => errors.push(e))
+    const closed = next('close')
+    const error = await client.start().catch((e) => e)
+    await closed
+    expect(error).to.be.an.instanceOf(RpcChannelClosedError)
+    expect(delays).to.be.deep.equal([3, 9])
+    expect(errors.map((e) => e.message)).to.be.deep.equal([
+      'Connection refused',
+      'Connection refused',
+      'Connection refused'
+    ])
+    expect(client.closed).to.be.true
+  })
+  it('rejects waiting calls when closed', async () => {
+    const result = client.call(['net', 'kb1rd', 'add']).catch((e) => e)
+    client.close()
+    expect(await result).to.be.an.instanceOf(RpcChannelClosedError)
+    expect(() => client.send(['net', 'kb1rd', 'add'])).to.throw(
+      RpcChannelClosedError
+    )
+    await client.start().catch(() => undefined)
+    expect(servers.length).to.be.equal(0)
+  })
+})
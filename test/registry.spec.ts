@@ -1,4 +1,5 @@
 import { expect } from 'chai'
+import Ajv from 'ajv'
 import {
   toRpcSerialized,
   InvalidChannelError,
@@ -13,7 +14,41 @@ import {
   RpcHandlerRegistry,
   MultistringAddress,
   FunctionAccessController,
-  RpcState
+  RpcState,
+  RpcTimeoutError,
+  RpcCancelledError,
+  RpcCallContext,
+  RpcWantsCallContext,
+  UseCallContext,
+  WithCallContext,
+  AutoFunctionAccessController,
+  EnforceMethodArgSchema,
+  Proxied,
+  releaseRef,
+  wasInterrupted,
+  JsonCodec,
+  StructuredCloneCodec,
+  SerializableData,
+  SerializedData,
+  TypeRegistry,
+  ErrorRegistry,
+  AccessDeniedError,
+  RpcChannelOpts,
+  RpcErrorCode,
+  RpcNotFoundError,
+  RpcInternalError,
+  RpcInvalidArgumentsError,
+  RpcChannelClosedError,
+  RpcIncompatibleError,
+  RpcHandshake,
+  RpcFeature,
+  RpcProtocolError,
+  RequirePermissions,
+  ReturnsGenerator,
+  ResultSchema,
+  MethodResultSchema,
+  EnforceArgumentSchema,
+  IdempotencyCache
 } from '../src/index'
 
 /**
@@ -60,6 +95,39 @@ describe('[registry.ts] RpcAddress', () => {
   })
 })
 
+describe('[registry.ts] WithCallContext', () => {
+  it('sets RpcWantsCallContext on member function', () => {
+    class Test {
+      @WithCallContext()
+      member(): number {
+        return 1
+      }
+    }
+    expect((new Test().member as any)[RpcWantsCallContext]).to.be.true
+  })
+  it('is preserved by registerAll', () => {
+    class Test {
+      @RpcAddress(['net', 'kb1rd', 'ctx'])
+      @WithCallContext()
+      member(): number {
+        return 1
+      }
+    }
+    const hr = new RpcHandlerRegistry()
+    hr.registerAll(new Test() as {})
+    expect(
+      (hr.map.get(['net', 'kb1rd', 'ctx']) as RpcFunction)[RpcWantsCallContext]
+    ).to.be.true
+  })
+})
+
+describe('[registry.ts] UseCallContext', () => {
+  it('sets RpcWantsCallContext on function', () => {
+    const func = UseCallContext(() => undefined)
+    expect(func[RpcWantsCallContext]).to.be.true
+  })
+})
+
 describe('[registry.ts] RpcHandlerRegistry', () => {
   it('nextSeqAddr allocates sequential return addresses', () => {
     const hr = new RpcHandlerRegistry()
@@ -450,6 +518,40 @@ describe('[registry.ts] RpcChannel', () => {
       })
       expect(sent_msgs[0][1].length).to.be.equal(0)
     })
+    it('sends proxied values as references', () => {
+      class Counter {
+        n = 0
+        add(): number {
+          return ++this.n
+        }
+      }
+      c.send(
+        ['net', 'kb1rd', 'hello'],
+        [Proxied(() => 'hi'), { counter: Proxied(new Counter()) }]
+      )
+      expect(sent_msgs[0][0]).to.be.deep.equal({
+        to: ['net', 'kb1rd', 'hello'],
+        args: [
+          { rpc_ref: 'id0' },
+          { counter: { rpc_ref: 'id1', methods: ['add'] } }
+        ],
+        return_addr: undefined,
+        return_type: 'promise',
+        refs: true
+      })
+      expect(c.exported_refs).to.be.equal(2)
+      expect(typeof c._i_reg.map.get(['_', 'ref', 'id0'])).to.be.equal(
+        'function'
+      )
+      expect(typeof c._i_reg.map.get(['_', 'ref', 'id1', 'add'])).to.be.equal(
+        'function'
+      )
+    })
+    it('clears references on close', () => {
+      c.send(['net', 'kb1rd', 'hello'], [Proxied(() => 'hi')])
+      c.close()
+      expect(c.exported_refs).to.be.equal(0)
+    })
   })
   describe('call', () => {
     beforeEach(() => c.start())
@@ -596,6 +698,99 @@ describe('[registry.ts] RpcChannel', () => {
       }
       expect(() => { throw error }).to.throw('Channel closed')
     })
+    it('sends deadline if timeout set', () => {
+      const now = Date.now()
+      c.call(['net', 'kb1rd', 'hello'], [], { timeout: 1000 })
+        .catch(() => undefined)
+      const deadline = sent_msgs[0][0].deadline as number
+      expect(deadline).to.be.at.least(now + 1000)
+      expect(deadline).to.be.at.most(Date.now() + 1000)
+    })
+    it('uses earliest of timeout and deadline', () => {
+      const deadline = Date.now() + 50
+      c.call(['net', 'kb1rd', 'hello'], [], { timeout: 1000, deadline })
+        .catch(() => undefined)
+      expect(sent_msgs[0][0].deadline).to.be.equal(deadline)
+    })
+    it('rejects generator options at compile time', () => {
+      const check = () => {
+        // @ts-expect-error
+        c.call(['net', 'kb1rd', 'hello'], [], { high_water_mark: 1 })
+        // @ts-expect-error
+        c.call(['net', 'kb1rd', 'hello'], [], { bidirectional: true })
+      }
+      expect(check).to.be.a('function')
+    })
+    it('rejects promise with RpcTimeoutError after timeout', async () => {
+      const promise = c.call(['net', 'kb1rd', 'hello'], [], { timeout: 5 })
+
+      let error: any
+      try {
+        await promise
+      } catch(e) {
+        error = e
+      }
+      expect(error).to.be.an.instanceOf(RpcTimeoutError)
+      expect(
+        c._i_reg.map.get(sent_msgs[0][0].return_addr as MultistringAddress)
+      ).to.be.undefined
+    })
+    it('does not time out if response received', async () => {
+      const promise = c.call(['net', 'kb1rd', 'hello'], [], { timeout: 5 })
+
+      ;(c._i_reg.map.get(
+        sent_msgs[0][0].return_addr as MultistringAddress
+      ) as RpcFunction)(c, [], 'hello', undefined)
+      expect(await promise).to.be.equal('hello')
+      await new Promise((r) => setTimeout(r, 10))
+    })
+    it('unregisters return handler on completion', async () => {
+      const promise = c.call(['net', 'kb1rd', 'hello'], [])
+
+      const raddr = sent_msgs[0][0].return_addr as MultistringAddress
+      ;(c._i_reg.map.get(raddr) as RpcFunction)(c, [], 'hello', undefined)
+      await promise
+      expect(c._i_reg.map.get(raddr)).to.be.undefined
+    })
+    it('sends cancel and rejects when signal aborted', async () => {
+      const controller = new AbortController()
+      const promise = c.call(['net', 'kb1rd', 'hello'], [], {
+        signal: controller.signal
+      })
+
+      controller.abort()
+      let error: any
+      try {
+        await promise
+      } catch(e) {
+        error = e
+      }
+      expect(error).to.be.an.instanceOf(RpcCancelledError)
+      const raddr = sent_msgs[0][0].return_addr as MultistringAddress
+      expect(sent_msgs.length).to.be.equal(2)
+      expect(sent_msgs[1][0].to).to.be.deep.equal(['_', 'cancel', ...raddr])
+      expect(c._i_reg.map.get(raddr)).to.be.undefined
+    })
+    it('does not send if signal already aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+      let error: any
+      try {
+        await c.call(['net', 'kb1rd', 'hello'], [], {
+          signal: controller.signal
+        })
+      } catch(e) {
+        error = e
+      }
+      expect(error).to.be.an.instanceOf(RpcCancelledError)
+      expect(sent_msgs.length).to.be.equal(0)
+    })
+    it('sends cancel on timeout', async () => {
+      const promise = c.call(['net', 'kb1rd', 'hello'], [], { timeout: 1 })
+      await promise.catch(() => undefined)
+      const raddr = sent_msgs[0][0].return_addr as MultistringAddress
+      expect(sent_msgs[1][0].to).to.be.deep.equal(['_', 'cancel', ...raddr])
+    })
   })
   describe('generate', () => {
     beforeEach(() => c.start())
@@ -769,6 +964,127 @@ describe('[registry.ts] RpcChannel', () => {
       expect(error).to.be.an.instanceOf(ForwardedError)
       expect(error.name).to.be.equal('ERROR!')
     })
+    it('resolves final value with remote return value', async () => {
+      const gen = c.generate(['net', 'kb1rd', 'hello'], [])
+
+      ;(c._i_reg.map.get(
+        sent_msgs[0][0].return_addr as MultistringAddress
+      ) as RpcFunction)(c, [], 'bye', undefined, true)
+      const data = await gen.next()
+      expect(data.done).to.be.equal(true)
+      expect(data.value).to.be.equal('bye')
+    })
+    it('sends bidirectional flag', () => {
+      c.generate(['net', 'kb1rd', 'hello'], [], { bidirectional: true })
+      expect(sent_msgs[0][0].bidirectional).to.be.true
+    })
+    it('sends next values if bidirectional', async () => {
+      const gen = c.generate(['net', 'kb1rd', 'hello'], [], {
+        bidirectional: true
+      })
+      const raddr = sent_msgs[0][0].return_addr as MultistringAddress
+      const func = c._i_reg.map.get(raddr) as RpcFunction
+
+      func(c, [], 'a', undefined, false)
+      expect((await gen.next('ignored')).value).to.be.equal('a')
+      expect(sent_msgs.length).to.be.equal(1)
+
+      const next = gen.next('x')
+      await new Promise((res) => setTimeout(res, static_await_delay))
+      expect(sent_msgs.length).to.be.equal(2)
+      expect(sent_msgs[1][0].to).to.be.deep.equal(['_', 'nextgen', ...raddr])
+      expect(sent_msgs[1][0].args).to.be.deep.equal(['x'])
+
+      func(c, [], 'b', undefined, false)
+      expect((await next).value).to.be.equal('b')
+      gen.return(undefined)
+    })
+    it('sends high water mark as credit', () => {
+      c.generate(['net', 'kb1rd', 'hello'], [], { high_water_mark: 8 })
+      expect(sent_msgs[0][0].credit).to.be.equal(8)
+    })
+    it('uses channel default high water mark', () => {
+      c = new RpcChannel(
+        (msg, xfer) => sent_msgs.push([msg, xfer]),
+        undefined,
+        undefined,
+        { high_water_mark: 3 }
+      )
+      c.generate(['net', 'kb1rd', 'hello'], [])
+      expect(sent_msgs[0][0].credit).to.be.equal(3)
+    })
+    it('throws if high water mark invalid', () => {
+      expect(() =>
+        c.generate(['net', 'kb1rd', 'hello'], [], { high_water_mark: 0 })
+      ).to.throw(RangeError)
+      expect(sent_msgs.length).to.be.equal(0)
+    })
+    it('grants credit in batches as values are consumed', async () => {
+      const gen = c.generate(['net', 'kb1rd', 'hello'], [], {
+        high_water_mark: 4
+      })
+      const raddr = sent_msgs[0][0].return_addr as MultistringAddress
+      const func = c._i_reg.map.get(raddr) as RpcFunction
+      for (const v of ['a', 'b', 'c', 'd']) {
+        func(c, [], v, undefined, false)
+      }
+
+      await gen.next()
+      await gen.next()
+      expect(sent_msgs.length).to.be.equal(1)
+      await gen.next()
+      expect(sent_msgs.length).to.be.equal(2)
+      expect(sent_msgs[1][0].to).to.be.deep.equal(['_', 'nextgen', ...raddr])
+      expect(sent_msgs[1][0].args).to.be.deep.equal([undefined, 2])
+      gen.return(undefined)
+    })
+    it('does not send next values by default', async () => {
+      const gen = c.generate(['net', 'kb1rd', 'hello'], [])
+      const raddr = sent_msgs[0][0].return_addr as MultistringAddress
+      const func = c._i_reg.map.get(raddr) as RpcFunction
+
+      func(c, [], 'a', undefined, false)
+      func(c, [], 'b', undefined, false)
+      await gen.next()
+      await gen.next('x')
+      expect(sent_msgs.length).to.be.equal(1)
+      expect(sent_msgs[0][0].bidirectional).to.be.undefined
+      gen.return(undefined)
+    })
+    it('stops generator and throws when signal aborted', async () => {
+      const controller = new AbortController()
+      const gen = c.generate(['net', 'kb1rd', 'hello'], [], {
+        signal: controller.signal
+      })
+
+      const next = gen.next()
+      controller.abort()
+      let error: any
+      try {
+        await next
+      } catch(e) {
+        error = e
+      }
+      expect(error).to.be.an.instanceOf(RpcCancelledError)
+      const raddr = sent_msgs[0][0].return_addr as MultistringAddress
+      expect(sent_msgs[1][0].to).to.be.deep.equal(['_', 'stopgen', ...raddr])
+      expect(c._i_reg.map.get(raddr)).to.be.undefined
+    })
+    it('does not send if signal already aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+      const gen = c.generate(['net', 'kb1rd', 'hello'], [], {
+        signal: controller.signal
+      })
+      let error: any
+      try {
+        await gen.next()
+      } catch(e) {
+        error = e
+      }
+      expect(error).to.be.an.instanceOf(RpcCancelledError)
+      expect(sent_msgs.length).to.be.equal(0)
+    })
     it('finishes if channel closed', async () => {
       const gen = c.generate(['net', 'kb1rd', 'hello'], [])
 
@@ -776,6 +1092,14 @@ describe('[registry.ts] RpcChannel', () => {
       const data = await gen.next()
       expect(data.done).to.be.equal(true)
     })
+    it('finishes if channel closed while waiting', async () => {
+      const gen = c.generate(['net', 'kb1rd', 'hello'], [])
+
+      const data = gen.next()
+      await new Promise((res) => setTimeout(res, static_await_delay))
+      c.close()
+      expect((await data).done).to.be.equal(true)
+    })
   })
   describe('call_obj', () => {
     beforeEach(() => c.start())
@@ -840,6 +1164,119 @@ describe('[registry.ts] RpcChannel', () => {
         throw error
       }
     })
+    it('passes deadline in call context', () => {
+      let info: RpcCallContext | undefined
+      let arg: unknown
+      c.register(['net', 'kb1rd', 'test'], UseCallContext((ctx, a) => {
+        info = ctx
+        arg = a
+      }))
+      const deadline = Date.now() + 1000
+      c.receive({ to: ['net', 'kb1rd', 'test'], args: ['hello'], deadline })
+      expect(info).to.be.an.instanceOf(RpcCallContext)
+      expect((info as RpcCallContext).deadline).to.be.equal(deadline)
+      expect((info as RpcCallContext).remaining).to.be.within(1, 1000)
+      expect(arg).to.be.equal('hello')
+    })
+    it('aborts call context signal when cancelled', async () => {
+      let info: RpcCallContext | undefined
+      let resolve: (v: string) => void = () => undefined
+      c.register(['net', 'kb1rd', 'test'], UseCallContext((ctx) => {
+        info = ctx
+        return new Promise((r) => (resolve = r))
+      }))
+      c.receive({ to: ['net', 'kb1rd', 'test'], args: [], return_addr: ['r'] })
+      expect((info as RpcCallContext).cancelled).to.be.false
+      expect(typeof c._i_reg.map.get(['_', 'cancel', 'r'])).to.be.equal(
+        'function'
+      )
+
+      c.receive({ to: ['_', 'cancel', 'r'], args: [] })
+      expect((info as RpcCallContext).cancelled).to.be.true
+      expect((info as RpcCallContext).signal?.aborted).to.be.true
+      expect(c._i_reg.map.get(['_', 'cancel', 'r'])).to.be.undefined
+
+      // The caller has stopped listening, so no return value is sent
+      resolve('hi')
+      await new Promise((res) => setTimeout(res, static_await_delay))
+      expect(sent_msgs.length).to.be.equal(0)
+    })
+    it('unregisters cancel handler on completion', () => {
+      c.register(['net', 'kb1rd', 'test'], () => 'hi')
+      c.receive({ to: ['net', 'kb1rd', 'test'], args: [], return_addr: ['r'] })
+      expect(c._i_reg.map.get(['_', 'cancel', 'r'])).to.be.undefined
+    })
+    it('does not pollute prototypes with remote return addresses', () => {
+      c.register(['net', 'kb1rd', 'test'], () => new Promise(() => undefined))
+      c.receive({
+        to: ['net', 'kb1rd', 'test'],
+        args: [],
+        return_addr: ['__proto__', 'polluted']
+      })
+      expect(({} as { polluted?: unknown }).polluted).to.be.undefined
+      expect(typeof c._i_reg.map.get(['_', 'cancel', '__proto__', 'polluted']))
+        .to.be.equal('function')
+    })
+    it('passes call context in place of channel and wildcards', () => {
+      let ctx: RpcCallContext | undefined
+      let args: unknown[] = []
+      c.access_controller = new AutoFunctionAccessController(new Set(['p']))
+      c.register(
+        ['net', 'kb1rd', undefined],
+        UseCallContext((context, ...a) => {
+          ctx = context
+          args = a
+        })
+      )
+      const msg = { to: ['net', 'kb1rd', 'test'], args: ['hello', 123] }
+      c.receive(msg)
+      expect(ctx).to.be.an.instanceOf(RpcCallContext)
+      const context = ctx as RpcCallContext
+      expect(context.channel).to.be.equal(c)
+      expect(context.wildcards).to.be.deep.equal(['test'])
+      expect(context.address).to.be.deep.equal(['net', 'kb1rd', 'test'])
+      expect(context.message).to.be.equal(msg)
+      expect([...context.perms]).to.be.deep.equal(['p'])
+      expect(context.cancelled).to.be.false
+      expect(args).to.be.deep.equal(['hello', 123])
+    })
+    it('passes call context to decorated member functions', () => {
+      class Ctx {
+        @RpcAddress(['net', 'kb1rd', 'add'])
+        @WithCallContext()
+        @EnforceMethodArgSchema({
+          type: 'array',
+          items: [{ type: 'number' }, { type: 'number' }]
+        })
+        add(ctx: RpcCallContext, a: number, b: number): number {
+          expect(ctx.channel).to.be.equal(c)
+          return a + b
+        }
+      }
+      c.registerAll(new Ctx() as {})
+      c.receive({
+        to: ['net', 'kb1rd', 'add'],
+        args: [1, 2],
+        return_addr: ['return']
+      })
+      expect(sent_msgs[0][0].args).to.be.deep.equal([3, undefined])
+    })
+    it('does not call function if deadline passed', () => {
+      let called = false
+      c.register(['net', 'kb1rd', 'test'], () => {
+        called = true
+      })
+      c.receive({
+        to: ['net', 'kb1rd', 'test'],
+        args: [],
+        return_addr: ['return'],
+        deadline: Date.now() - 1
+      })
+      expect(called).to.be.false
+      expect(sent_msgs.length).to.be.equal(1)
+      expect((sent_msgs[0][0].args[1] as { name: string }).name)
+        .to.be.equal('RpcTimeoutError')
+    })
     it('does nothing if channel stopped', () => {
       c.stop()
       let called = false
@@ -1009,7 +1446,8 @@ describe('[registry.ts] RpcChannel', () => {
           args: [
             undefined,
             {
-              name: 'TypeError',
+              name: 'RpcNotFoundError',
+              code: 'not_found',
               columnNumber: undefined,
               fileName: undefined,
               lineNumber: undefined,
@@ -1039,6 +1477,7 @@ describe('[registry.ts] RpcChannel', () => {
             undefined,
             {
               name: 'AccessDeniedError',
+              code: 'access_denied',
               columnNumber: undefined,
               fileName: undefined,
               lineNumber: undefined,
@@ -1068,6 +1507,7 @@ describe('[registry.ts] RpcChannel', () => {
             undefined,
             {
               name: 'AccessDeniedError',
+              code: 'access_denied',
               columnNumber: undefined,
               fileName: undefined,
               lineNumber: undefined,
@@ -1266,7 +1706,7 @@ describe('[registry.ts] RpcChannel', () => {
       })
       it('responds to stop handler', async () => {
         let on_stop: () => void
-        let stop_promise = new Promise((r) => (on_stop = r))
+        let stop_promise = new Promise<void>((r) => (on_stop = r))
         c.register(['net', 'kb1rd', 'test'], async function*(chan, wc, a, b) {
           yield 'a'
           on_stop()
@@ -1335,6 +1775,123 @@ describe('[registry.ts] RpcChannel', () => {
         })
         expect(sent_msgs[1][1].length).to.be.equal(0)
       })
+      it('stops generator when cancelled', async () => {
+        let on_stop: () => void
+        let stop_promise = new Promise<void>((r) => (on_stop = r))
+        let info: RpcCallContext | undefined
+        c.register(['net', 'kb1rd', 'test'], UseCallContext(async function* (
+          ctx
+        ) {
+          info = ctx
+          yield 'a'
+          on_stop()
+          yield 'b'
+        }))
+        c.receive({
+          to: ['net', 'kb1rd', 'test'],
+          args: [],
+          return_addr: ['return'],
+          return_type: 'generator'
+        })
+        await stop_promise
+        c.receive({ to: ['_', 'cancel', 'return'], args: [] })
+        await new Promise((res) => setTimeout(res, static_await_delay))
+        expect(sent_msgs.length).to.be.equal(1)
+        expect((info as RpcCallContext).cancelled).to.be.true
+        expect(c._i_reg.map.get(['_', 'stopgen', 'return'])).to.be.undefined
+      })
+      it('`send`s generator return value when finished', async () => {
+        c.register(['net', 'kb1rd', 'test'], async function*() {
+          yield 'a'
+          return 'b'
+        })
+        c.receive({
+          to: ['net', 'kb1rd', 'test'],
+          args: [],
+          return_addr: ['return'],
+          return_type: 'generator'
+        })
+        await new Promise((res) => setTimeout(res, static_await_delay))
+        expect(sent_msgs.length).to.be.equal(2)
+        expect(sent_msgs[1][0].args).to.be.deep.equal(['b', undefined, true])
+      })
+      it('waits for and passes next values if bidirectional', async () => {
+        const received: unknown[] = []
+        c.register(['net', 'kb1rd', 'test'], async function*() {
+          received.push(yield 'a')
+          received.push(yield 'b')
+          return 'c'
+        })
+        c.receive({
+          to: ['net', 'kb1rd', 'test'],
+          args: [],
+          return_addr: ['return'],
+          return_type: 'generator',
+          bidirectional: true
+        })
+        await new Promise((res) => setTimeout(res, static_await_delay))
+        expect(sent_msgs.length).to.be.equal(1)
+        expect(sent_msgs[0][0].args).to.be.deep.equal(['a', undefined, false])
+
+        c.receive({ to: ['_', 'nextgen', 'return'], args: ['x'] })
+        await new Promise((res) => setTimeout(res, static_await_delay))
+        expect(sent_msgs.length).to.be.equal(2)
+        expect(sent_msgs[1][0].args).to.be.deep.equal(['b', undefined, false])
+        expect(received).to.be.deep.equal(['x'])
+
+        c.receive({ to: ['_', 'nextgen', 'return'], args: ['y'] })
+        await new Promise((res) => setTimeout(res, static_await_delay))
+        expect(sent_msgs.length).to.be.equal(3)
+        expect(sent_msgs[2][0].args).to.be.deep.equal(['c', undefined, true])
+        expect(received).to.be.deep.equal(['x', 'y'])
+        expect(c._i_reg.map.get(['_', 'nextgen', 'return'])).to.be.undefined
+      })
+      it('accepts multiple credits at once', async () => {
+        c.register(['net', 'kb1rd', 'test'], async function*() {
+          yield 'a'
+          yield 'b'
+          yield 'c'
+          yield 'd'
+        })
+        c.receive({
+          to: ['net', 'kb1rd', 'test'],
+          args: [],
+          return_addr: ['return'],
+          return_type: 'generator',
+          credit: 2
+        })
+        await new Promise((res) => setTimeout(res, static_await_delay))
+        expect(sent_msgs.length).to.be.equal(2)
+
+        c.receive({ to: ['_', 'nextgen', 'return'], args: [undefined, 2] })
+        await new Promise((res) => setTimeout(res, static_await_delay))
+        expect(sent_msgs.length).to.be.equal(4)
+        expect(sent_msgs[3][0].args).to.be.deep.equal(['d', undefined, false])
+      })
+      it('stops while waiting for next value', async () => {
+        let finalized = false
+        c.register(['net', 'kb1rd', 'test'], async function*() {
+          try {
+            yield 'a'
+            yield 'b'
+          } finally {
+            finalized = true
+          }
+        })
+        c.receive({
+          to: ['net', 'kb1rd', 'test'],
+          args: [],
+          return_addr: ['return'],
+          return_type: 'generator',
+          bidirectional: true
+        })
+        await new Promise((res) => setTimeout(res, static_await_delay))
+        c.receive({ to: ['_', 'stopgen', 'return'], args: [] })
+        await new Promise((res) => setTimeout(res, static_await_delay))
+        expect(sent_msgs.length).to.be.equal(1)
+        expect(finalized).to.be.true
+        expect(c._i_reg.map.get(['_', 'nextgen', 'return'])).to.be.undefined
+      })
       it('unregisters `stopgen` channel when stopped', async () => {
         c.register(['net', 'kb1rd', 'test'], async function*(chan, wc, a, b) {
           yield 'a'
@@ -1373,4 +1930,1191 @@ describe('[registry.ts] RpcChannel', () => {
       })
     })
   })
-})
\ No newline at end of file
+})
+
+describe('[registry.ts] RpcChannel pair', () => {
+  let a: RpcChannel
+  let b: RpcChannel
+  beforeEach(async () => {
+    a = new RpcChannel((msg) => b.receive(msg))
+    b = new RpcChannel((msg) => a.receive(msg))
+    await Promise.all([a.start(), b.start()])
+  })
+  afterEach(() => {
+    a.close()
+    b.close()
+  })
+  it('supports bidirectional generators', async () => {
+    b.register(['net', 'kb1rd', 'echo'], async function*() {
+      let total = 0
+      while (total < 10) {
+        total += (yield total) as number
+      }
+      return 'done'
+    })
+    const gen = a.generate(['net', 'kb1rd', 'echo'], [], {
+      bidirectional: true
+    })
+    expect(await gen.next()).to.be.deep.equal({ value: 0, done: false })
+    expect(await gen.next(4)).to.be.deep.equal({ value: 4, done: false })
+    expect(await gen.next(3)).to.be.deep.equal({ value: 7, done: false })
+    expect(await gen.next(5)).to.be.deep.equal({ value: 'done', done: true })
+    expect(b._i_reg.map.get(['_', 'nextgen', '_', 'ret', 'id0'])).to.be
+      .undefined
+  })
+  it('limits values in flight to the high water mark', async () => {
+    let produced = 0
+    b.register(['net', 'kb1rd', 'count'], async function*() {
+      while (produced < 50) {
+        yield produced++
+      }
+    })
+    const gen = a.generate(['net', 'kb1rd', 'count'], [], {
+      high_water_mark: 4
+    })
+    const values: number[] = []
+    for await (const v of gen) {
+      values.push(v as number)
+      // Give the producer a chance to run ahead
+      await new Promise((res) => setTimeout(res, static_await_delay))
+      expect(produced - values.length).to.be.at.most(4)
+    }
+    expect(values.length).to.be.equal(50)
+    expect(values[49]).to.be.equal(49)
+  })
+  it('counts live streams on both ends', async () => {
+    b.register(['net', 'kb1rd', 'count'], async function*() {
+      yield 1
+      yield 2
+    })
+    const gen = a.generate(['net', 'kb1rd', 'count'], [])
+    expect(await gen.next()).to.be.deep.equal({ value: 1, done: false })
+    expect(a.outgoing_streams).to.be.equal(1)
+    expect(b.incoming_streams).to.be.equal(1)
+    await gen.next()
+    expect(await gen.next()).to.be.deep.equal({
+      value: undefined,
+      done: true
+    })
+    expect(a.outgoing_streams).to.be.equal(0)
+    expect(b.incoming_streams).to.be.equal(0)
+  })
+  it('stops generators that are garbage collected', async function() {
+    // Only available when run with `--expose-gc`
+    const gc = (globalThis as { gc?: () => void }).gc
+    if (!gc) {
+      this.skip()
+    }
+    b.register(['net', 'kb1rd', 'count'], async function*() {
+      for (let i = 0; true; i++) {
+        yield i
+      }
+    })
+    await (async () => {
+      const gen = a.generate(['net', 'kb1rd', 'count'], [], {
+        high_water_mark: 1
+      })
+      expect(await gen.next()).to.be.deep.equal({ value: 0, done: false })
+    })()
+    expect(a.outgoing_streams).to.be.equal(1)
+    expect(b.incoming_streams).to.be.equal(1)
+    // Finalizers run some time after collection
+    for (let i = 0; i < 20 && a.outgoing_streams; i++) {
+      ;(gc as () => void)()
+      await new Promise((res) => setTimeout(res, 10))
+    }
+    await new Promise((res) => setTimeout(res, static_await_delay))
+    expect(a.outgoing_streams).to.be.equal(0)
+    expect(b.incoming_streams).to.be.equal(0)
+  })
+  it('stops idle generators', async () => {
+    let stopped = false
+    b.register(['net', 'kb1rd', 'count'], async function*() {
+      try {
+        for (let i = 0; true; i++) {
+          yield i
+        }
+      } finally {
+        stopped = true
+      }
+    })
+    const gen = a.generate(['net', 'kb1rd', 'count'], [], {
+      high_water_mark: 2,
+      idle_timeout: 5
+    })
+    expect(await gen.next()).to.be.deep.equal({ value: 0, done: false })
+    await new Promise((res) => setTimeout(res, 20))
+    expect(a.outgoing_streams).to.be.equal(0)
+    expect(b.incoming_streams).to.be.equal(0)
+    expect(stopped).to.be.true
+    let error: Error | undefined
+    try {
+      await gen.next()
+    } catch (e) {
+      error = e
+    }
+    expect(error).to.be.an.instanceOf(RpcTimeoutError)
+  })
+  it('stops generators waiting for credit past the idle timeout', async () => {
+    const server: RpcChannel = new RpcChannel(
+      (msg) => client.receive(msg),
+      undefined,
+      undefined,
+      { generator_idle_timeout: 5 }
+    )
+    const client: RpcChannel = new RpcChannel((msg) => server.receive(msg))
+    await Promise.all([server.start(), client.start()])
+    let stopped = false
+    server.register(['net', 'kb1rd', 'count'], async function*() {
+      try {
+        for (let i = 0; true; i++) {
+          yield i
+        }
+      } finally {
+        stopped = true
+      }
+    })
+    const gen = client.generate(['net', 'kb1rd', 'count'], [], {
+      high_water_mark: 1
+    })
+    expect(await gen.next()).to.be.deep.equal({ value: 0, done: false })
+    await new Promise((res) => setTimeout(res, 20))
+    expect(stopped).to.be.true
+    expect(server.incoming_streams).to.be.equal(0)
+    await gen.return(undefined)
+    client.close()
+    server.close()
+  })
+  it('stops served generators when the channel closes', async () => {
+    let stopped = false
+    b.register(['net', 'kb1rd', 'count'], async function*() {
+      try {
+        for (let i = 0; true; i++) {
+          yield i
+        }
+      } finally {
+        stopped = true
+      }
+    })
+    const gen = a.generate(['net', 'kb1rd', 'count'], [], {
+      high_water_mark: 1
+    })
+    await gen.next()
+    expect(b.incoming_streams).to.be.equal(1)
+    b.close()
+    await new Promise((res) => setTimeout(res, static_await_delay))
+    expect(stopped).to.be.true
+    expect(b.incoming_streams).to.be.equal(0)
+    await gen.return(undefined)
+  })
+  it('tells if generators were interrupted by a close', async () => {
+    b.register(['net', 'kb1rd', 'done'], async function*() {
+      return 'done'
+    })
+    b.register(['net', 'kb1rd', 'hang'], async function*() {
+      await new Promise(() => undefined)
+    })
+    const done = a.generate(['net', 'kb1rd', 'done'])
+    const hang = a.generate(['net', 'kb1rd', 'hang'])
+    await new Promise((res) => setTimeout(res, static_await_delay))
+    expect(wasInterrupted(hang)).to.be.false
+    a.close()
+    expect(await done.next()).to.be.deep.equal({ value: 'done', done: true })
+    expect(await hang.next()).to.be.deep.equal({
+      value: undefined,
+      done: true
+    })
+    expect(wasInterrupted(done)).to.be.false
+    expect(wasInterrupted(hang)).to.be.true
+  })
+  it('calls proxied callbacks', async () => {
+    b.register(['net', 'kb1rd', 'work'], async (c, w, onProgress) => {
+      const progress = (onProgress as unknown) as (p: number) => Promise<void>
+      await progress(50)
+      await progress(100)
+      return 'done'
+    })
+    const seen: number[] = []
+    const result = await a.call(
+      ['net', 'kb1rd', 'work'],
+      [Proxied((p: number) => seen.push(p))]
+    )
+    expect(result).to.be.equal('done')
+    expect(seen).to.be.deep.equal([50, 100])
+  })
+  it('calls methods of proxied objects', async () => {
+    class Counter {
+      n = 0
+      add(by: number): number {
+        return (this.n += by)
+      }
+    }
+    const counter = new Counter()
+    b.register(['net', 'kb1rd', 'count'], async (c, w, remote) => {
+      const r = (remote as unknown) as { add(by: number): Promise<number> }
+      await r.add(2)
+      return await r.add(3)
+    })
+    expect(
+      await a.call(['net', 'kb1rd', 'count'], [Proxied(counter)])
+    ).to.be.equal(5)
+    expect(counter.n).to.be.equal(5)
+  })
+  it('returns proxied values', async () => {
+    b.register(['net', 'kb1rd', 'getter'], () => Proxied(() => 'hi'))
+    const func = ((await a.call(
+      ['net', 'kb1rd', 'getter'],
+      []
+    )) as unknown) as () => Promise<string>
+    expect(await func()).to.be.equal('hi')
+  })
+  it('releases references', async () => {
+    let remote: unknown
+    b.register(['net', 'kb1rd', 'keep'], (c, w, r) => {
+      remote = r
+    })
+    await a.call(['net', 'kb1rd', 'keep'], [Proxied(() => 'hi')])
+    expect(a.exported_refs).to.be.equal(1)
+    releaseRef(remote)
+    expect(a.exported_refs).to.be.equal(0)
+    let error: Error | undefined
+    try {
+      await ((remote as unknown) as () => Promise<string>)()
+    } catch (e) {
+      error = e
+    }
+    expect(error?.message).to.be.equal('Remote reference has been released')
+  })
+  it('does not send releases once closed', async () => {
+    let remote: unknown
+    b.register(['net', 'kb1rd', 'keep'], (c, w, r) => {
+      remote = r
+    })
+    await a.call(['net', 'kb1rd', 'keep'], [Proxied(() => 'hi')])
+    const received: RpcMessage[] = []
+    const receive = a.receive.bind(a)
+    a.receive = (msg: RpcMessage) => {
+      received.push(msg)
+      receive(msg)
+    }
+    b.close()
+    releaseRef(remote)
+    expect(received.filter((m) => m.to[1] === 'unref')).to.be.deep.equal([])
+  })
+  it('ignores releasing values that are not references', () => {
+    releaseRef(() => 'hi')
+    releaseRef(undefined)
+  })
+})
+
+describe('[registry.ts] RpcChannel codec', () => {
+  let a: RpcChannel
+  let b: RpcChannel
+  beforeEach(async () => {
+    const opts = { codec: new JsonCodec() }
+    const json = (msg: RpcMessage) => JSON.parse(JSON.stringify(msg))
+    a = new RpcChannel(
+      (msg) => b.receive(json(msg)),
+      undefined,
+      undefined,
+      opts
+    )
+    b = new RpcChannel(
+      (msg) => a.receive(json(msg)),
+      undefined,
+      undefined,
+      opts
+    )
+    await Promise.all([a.start(), b.start()])
+  })
+  afterEach(() => {
+    a.close()
+    b.close()
+  })
+  it('defaults to structured clone codec', () => {
+    expect(new RpcChannel(() => undefined).codec).to.be.an.instanceOf(
+      StructuredCloneCodec
+    )
+  })
+  it('encodes arguments and return values', async () => {
+    b.register(['net', 'kb1rd', 'add'], (src, wc, x, date) => {
+      expect(date).to.be.an.instanceOf(Date)
+      return (new Map([
+        ['sum', (x as bigint) + 1n]
+      ]) as unknown) as SerializableData
+    })
+    const result = await a.call(
+      ['net', 'kb1rd', 'add'],
+      [1n, (new Date() as unknown) as SerializableData]
+    )
+    expect(result).to.be.deep.equal(new Map([['sum', 2n]]))
+  })
+  it('returns error if arguments cannot be decoded', async () => {
+    let called = false
+    b.register(['net', 'kb1rd', 'hello'], () => {
+      called = true
+    })
+    const return_addr = ['net', 'kb1rd', 'ret']
+    let error: unknown
+    a.register(return_addr, (src, wc, data, e) => {
+      error = e
+    })
+    b.receive({
+      to: ['net', 'kb1rd', 'hello'],
+      args: [{ $t: 'yeet' }],
+      return_addr
+    })
+    expect(called).to.be.false
+    expect(error).to.include({
+      name: 'RpcInvalidArgumentsError',
+      code: RpcErrorCode.INVALID_ARGUMENTS,
+      message: 'Unknown type tag yeet'
+    })
+  })
+  it('fails calls if the response cannot be decoded', async () => {
+    b.register(
+      ['net', 'kb1rd', 'hello'],
+      UseCallContext((ctx) => {
+        // A response that the codec never produces itself
+        a.receive({
+          to: ctx.message.return_addr as string[],
+          args: [{ $t: 'yeet' }]
+        })
+        return new Promise(() => undefined)
+      })
+    )
+    const emitted: RpcProtocolError[] = []
+    a.on('protocolerror', (e: RpcProtocolError) => emitted.push(e))
+    const error = await a.call(['net', 'kb1rd', 'hello']).catch((e) => e)
+    expect(error).to.be.an.instanceOf(RpcInvalidArgumentsError)
+    expect(error.message).to.be.equal('Unknown type tag yeet')
+    expect(emitted.length).to.be.equal(1)
+    expect(emitted[0].message).to.be.equal(
+      'Could not decode message: Unknown type tag yeet'
+    )
+  })
+})
+
+describe('[registry.ts] RpcChannel types', () => {
+  class DocumentId {
+    constructor(readonly id: string) {}
+    toString(): string {
+      return `doc:${this.id}`
+    }
+  }
+  const types = new TypeRegistry().register(
+    'DocumentId',
+    DocumentId,
+    (d) => d.id,
+    (d) => new DocumentId(String(d))
+  )
+  let a: RpcChannel
+  let b: RpcChannel
+  beforeEach(async () => {
+    a = new RpcChannel((msg) => b.receive(msg), undefined, undefined, {
+      types
+    })
+    b = new RpcChannel((msg) => a.receive(msg), undefined, undefined, {
+      types
+    })
+    await Promise.all([a.start(), b.start()])
+  })
+  afterEach(() => {
+    a.close()
+    b.close()
+  })
+  it('revives registered classes in arguments and return values', async () => {
+    b.register(['net', 'kb1rd', 'next'], (src, wc, doc) => {
+      expect(doc).to.be.an.instanceOf(DocumentId)
+      const { id } = (doc as unknown) as DocumentId
+      return (new DocumentId(`${id}1`) as unknown) as SerializableData
+    })
+    const result = await a.call(
+      ['net', 'kb1rd', 'next'],
+      [(new DocumentId('a') as unknown) as SerializableData]
+    )
+    expect(result).to.be.an.instanceOf(DocumentId)
+    expect(String(result)).to.be.equal('doc:a1')
+  })
+  it('returns error if type is unknown', async () => {
+    b.register(['net', 'kb1rd', 'hello'], () => undefined)
+    let error: unknown
+    a.register(['net', 'kb1rd', 'ret'], (src, wc, data, e) => {
+      error = e
+    })
+    b.receive({
+      to: ['net', 'kb1rd', 'hello'],
+      args: [{ rpc_type: 'Unknown', value: null }],
+      return_addr: ['net', 'kb1rd', 'ret']
+    })
+    expect((error as Error).message).to.be.equal('Unknown type Unknown')
+  })
+})
+
+describe('[registry.ts] RpcChannel errors', () => {
+  class HttpError extends Error {
+    readonly name = 'HttpError'
+    constructor(message: string, public code: number) {
+      super(message)
+    }
+  }
+  const errors = new ErrorRegistry().register(HttpError)
+  const pair = async (opts: RpcChannelOpts) => {
+    let a: RpcChannel | undefined
+    const b: RpcChannel = new RpcChannel(
+      (msg) => (a as RpcChannel).receive(msg),
+      undefined,
+      undefined,
+      opts
+    )
+    a = new RpcChannel((msg) => b.receive(msg), undefined, undefined, opts)
+    await Promise.all([a.start(), b.start()])
+    return [a, b]
+  }
+  const callError = async (c: RpcChannel) => {
+    try {
+      await c.call(['net', 'kb1rd', 'fail'])
+    } catch (e) {
+      return e
+    }
+    throw new Error('Call did not fail')
+  }
+  it('revives registered errors with properties and causes', async () => {
+    const [a, b] = await pair({ errors })
+    b.register(['net', 'kb1rd', 'fail'], () => {
+      const error = new Error('Request failed')
+      Object.defineProperty(error, 'cause', {
+        value: new HttpError('Not found', 404)
+      })
+      throw error
+    })
+    const error = await callError(a)
+    expect(error).to.be.an.instanceOf(Error)
+    expect(error.message).to.be.equal('Request failed')
+    expect(error.cause).to.be.an.instanceOf(HttpError)
+    expect(error.cause.code).to.be.equal(404)
+    a.close()
+    b.close()
+  })
+  it('revives default errors', async () => {
+    const [a, b] = await pair({})
+    b.register(['net', 'kb1rd', 'fail'], () => {
+      throw new AccessDeniedError('No')
+    })
+    expect(await callError(a)).to.be.an.instanceOf(AccessDeniedError)
+    b.unregister(['net', 'kb1rd', 'fail'])
+    b.register(['net', 'kb1rd', 'fail'], () => {
+      throw new HttpError('Not found', 404)
+    })
+    const error = await callError(a)
+    expect(error).to.be.an.instanceOf(ForwardedError)
+    expect(error.code).to.be.equal(404)
+    a.close()
+    b.close()
+  })
+  it('sends stacks if enabled', async () => {
+    const [a, b] = await pair({ error_stack: 'send' })
+    const thrown = new Error('yeet')
+    b.register(['net', 'kb1rd', 'fail'], () => {
+      throw thrown
+    })
+    expect((await callError(a)).stack).to.be.equal(thrown.stack)
+    a.close()
+    b.close()
+  })
+  it('rejects with error codes', async () => {
+    const [a, b] = await pair({})
+    let error = await callError(a)
+    expect(error).to.be.an.instanceOf(RpcNotFoundError)
+    expect(error.code).to.be.equal(RpcErrorCode.NOT_FOUND)
+
+    b.register(
+      ['net', 'kb1rd', 'fail'],
+      () => ((() => undefined) as unknown) as SerializableData
+    )
+    error = await callError(a)
+    expect(error).to.be.an.instanceOf(RpcInternalError)
+    expect(error.code).to.be.equal(RpcErrorCode.INTERNAL)
+
+    b.register(['net', 'kb1rd', 'hang'], () => new Promise(() => undefined))
+    const promise = a.call(['net', 'kb1rd', 'hang'])
+    a.close()
+    error = await promise.catch((e) => e)
+    expect(error).to.be.an.instanceOf(RpcChannelClosedError)
+    expect(error.code).to.be.equal(RpcErrorCode.CHANNEL_CLOSED)
+    b.close()
+  })
+  it('sends codes for errors thrown by functions', async () => {
+    const [a, b] = await pair({ errors })
+    // Plain functions are also passed the channel and wildcards
+    b.register(
+      ['net', 'kb1rd', 'fail'],
+      EnforceArgumentSchema({ type: 'array', maxItems: 3 }, () => {
+        throw new RangeError('Out of range')
+      })
+    )
+    let error = await callError(a)
+    expect(error).to.be.an.instanceOf(RangeError)
+    // Errors of the function itself are left without a code
+    expect(error).to.not.have.property('code')
+
+    error = await a.call(['net', 'kb1rd', 'fail'], [1, 2]).catch((e) => e)
+    expect(error).to.be.an.instanceOf(RpcInvalidArgumentsError)
+    expect(error.code).to.be.equal(RpcErrorCode.INVALID_ARGUMENTS)
+    expect(error.cause).to.be.an.instanceOf(Ajv.ValidationError)
+
+    b.register(['net', 'kb1rd', 'fail'], () => {
+      throw new HttpError('Not found', 404)
+    })
+    error = await callError(a)
+    expect(error.code).to.be.equal(404)
+    a.close()
+    b.close()
+  })
+  it('does not throw if the response cannot be sent', () => {
+    const c = new RpcChannel(() => {
+      throw new Error('Closed')
+    })
+    c.register(['net', 'kb1rd', 'hello'], () => 'hi')
+    expect(() =>
+      c.receive({ to: ['net', 'kb1rd', 'hello'], args: [], return_addr: ['r'] })
+    ).to.not.throw()
+  })
+  it('revives errors thrown by generators', async () => {
+    const [a, b] = await pair({ errors })
+    b.register(['net', 'kb1rd', 'gen'], async function* () {
+      yield 1
+      throw new HttpError('Gone', 410)
+    })
+    let error: unknown
+    try {
+      for await (const v of a.generate(['net', 'kb1rd', 'gen'])) {
+        expect(v).to.be.equal(1)
+      }
+    } catch (e) {
+      error = e
+    }
+    expect(error).to.be.an.instanceOf(HttpError)
+    a.close()
+    b.close()
+  })
+})
+
+describe('[registry.ts] RpcChannel handshake', () => {
+  const link = (a_opts: RpcChannelOpts, b_opts: RpcChannelOpts) => {
+    let a: RpcChannel | undefined
+    const b: RpcChannel = new RpcChannel(
+      (msg) => (a as RpcChannel).receive(msg),
+      undefined,
+      undefined,
+      b_opts
+    )
+    a = new RpcChannel((msg) => b.receive(msg), undefined, undefined, a_opts)
+    return [a, b]
+  }
+  it('negotiates with remote end', async () => {
+    const [a, b] = link(
+      { handshake: { app_version: '1.2.0', features: ['compression'] } },
+      { handshake: { app_version: '1.3.0' } }
+    )
+    let negotiated: RpcHandshake | undefined
+    a.on('handshake', (h: RpcHandshake) => (negotiated = h))
+    await a.start()
+    expect(a.state).to.be.equal(RpcState.ACTIVE)
+    expect(negotiated).to.be.equal(a.handshake)
+    expect(a.handshake).to.be.deep.equal({
+      protocol: 1,
+      features: ['generators', 'cancellation', 'flow_control', 'remote_refs'],
+      remote: {
+        protocol: 1,
+        min_protocol: 1,
+        features: ['generators', 'cancellation', 'flow_control', 'remote_refs'],
+        codec: 'structured_clone',
+        app_version: '1.3.0'
+      }
+    })
+    // The hello was already received, so nothing else needs to be sent
+    await b.start()
+    expect(b.handshake?.remote.app_version).to.be.equal('1.2.0')
+    b.register(['net', 'kb1rd', 'hello'], () => 'hi')
+    expect(await a.call(['net', 'kb1rd', 'hello'])).to.be.equal('hi')
+    a.close()
+  })
+  it('is answered by channels without handshake option', async () => {
+    const [a, b] = link({ handshake: true }, {})
+    await Promise.all([a.start(), b.start()])
+    expect(a.handshake?.protocol).to.be.equal(1)
+    expect(b.handshake).to.be.undefined
+    a.close()
+  })
+  it('fails and closes if incompatible', async () => {
+    const [a, b] = link(
+      { handshake: { required_features: [RpcFeature.COMPRESSION] } },
+      { handshake: true }
+    )
+    let emitted: Error | undefined
+    a.on('handshakeerror', (e: Error) => (emitted = e))
+    const error = await a.start().catch((e) => e)
+    expect(error).to.be.an.instanceOf(RpcIncompatibleError)
+    expect(error.message).to.be.equal(
+      'Remote does not support required features: compression'
+    )
+    expect(emitted).to.be.equal(error)
+    expect(a.state).to.be.equal(RpcState.CLOSED)
+    expect(b.state).to.be.equal(RpcState.CLOSED)
+    expect(await b.start().catch((e) => e)).to.be.an.instanceOf(
+      RpcChannelClosedError
+    )
+  })
+  it('detects different codecs', async () => {
+    const [a, b] = link(
+      { handshake: true, codec: new JsonCodec() },
+      { handshake: true }
+    )
+    const error = await a.start().catch((e) => e)
+    expect(error.message).to.be.equal(
+      'Incompatible codecs: local json, remote structured_clone'
+    )
+    expect((await b.start().catch((e) => e)).message).to.be.equal(
+      'Incompatible codecs: local structured_clone, remote json'
+    )
+  })
+  it('fails if hello is invalid', async () => {
+    const [a] = link({ handshake: true }, {})
+    a.receive({ to: ['_', 'hello'], args: [{ protocol: 'yeet' }] })
+    const error = await a.start().catch((e) => e)
+    expect(error).to.be.an.instanceOf(RpcIncompatibleError)
+    expect(error.message).to.be.equal('Invalid handshake')
+  })
+  it('fails if remote end does not support handshakes', async () => {
+    const [a, b] = link({ handshake: true }, {})
+    // Like a version from before the handshake
+    b._i_reg.unregister(['_', 'hello'])
+    const error = await a.start().catch((e) => e)
+    expect(error).to.be.an.instanceOf(RpcIncompatibleError)
+    expect(error.message).to.be.equal('Remote end does not support handshakes')
+    expect(a.state).to.be.equal(RpcState.CLOSED)
+  })
+  it('times out', async () => {
+    const sent: RpcMessage[] = []
+    const c = new RpcChannel((msg) => sent.push(msg), undefined, undefined, {
+      handshake: { timeout: 5 }
+    })
+    const error = await c.start().catch((e) => e)
+    expect(error).to.be.an.instanceOf(RpcTimeoutError)
+    expect(c.state).to.be.equal(RpcState.CLOSED)
+    expect(sent[0].to).to.be.deep.equal(['_', 'hello'])
+  })
+  it('fails if channel closes', async () => {
+    const c = new RpcChannel(() => undefined, undefined, undefined, {
+      handshake: true
+    })
+    const promise = c.start()
+    c.close()
+    const error = await promise.catch((e) => e)
+    expect(error).to.be.an.instanceOf(RpcChannelClosedError)
+  })
+})
+
+describe('[registry.ts] RpcChannel validation', () => {
+  const invalid = (msg: unknown) => (msg as unknown) as RpcMessage
+  it('drops malformed messages and emits protocolerror', () => {
+    const c = new RpcChannel(() => undefined)
+    let called = false
+    c.register(['net', 'kb1rd', 'hello'], () => {
+      called = true
+    })
+    const emitted: [RpcProtocolError, unknown][] = []
+    c.on('protocolerror', (e: RpcProtocolError, msg: unknown) =>
+      emitted.push([e, msg])
+    )
+    const msg = invalid({ to: 'net.kb1rd.hello', args: [] })
+    expect(() => c.receive(msg)).to.not.throw()
+    expect(called).to.be.false
+    expect(emitted.length).to.be.equal(1)
+    const [error, received] = emitted[0]
+    expect(error).to.be.an.instanceOf(RpcProtocolError)
+    expect(error.message).to.be.equal(
+      'Invalid message: message.to should be array'
+    )
+    expect(error.errors[0].dataPath).to.be.equal('.to')
+    expect(received).to.be.equal(msg)
+    expect(c.protocol_errors).to.be.equal(1)
+    c.close()
+  })
+  it('rejects messages of the wrong shape', () => {
+    const c = new RpcChannel(() => undefined)
+    ;[
+      null,
+      'hello',
+      { to: ['net'] },
+      { to: ['net', 1], args: [] },
+      { to: ['net'], args: [], return_addr: 'r' },
+      { to: ['net'], args: [], return_type: 'yeet' },
+      { to: ['net'], args: [], deadline: '1' }
+    ].forEach((msg) => c.receive(invalid(msg)))
+    expect(c.protocol_errors).to.be.equal(7)
+    expect(c.state).to.not.be.equal(RpcState.CLOSED)
+    c.close()
+  })
+  it('does not count malformed messages as activity', () => {
+    const c = new RpcChannel(() => undefined)
+    let raw = 0
+    c.on('rawmessage', () => raw++)
+    c.receive(invalid({ to: ['_', 'keepalive'] }))
+    expect(raw).to.be.equal(0)
+    c.close()
+  })
+  it('closes after `max_protocol_errors`', () => {
+    const sent: RpcMessage[] = []
+    const c = new RpcChannel((msg) => sent.push(msg), undefined, undefined, {
+      max_protocol_errors: 2
+    })
+    c.receive(invalid({ to: 1 }))
+    expect(c.state).to.not.be.equal(RpcState.CLOSED)
+    c.receive(invalid({ to: 2 }))
+    expect(c.state).to.be.equal(RpcState.CLOSED)
+    expect(sent.map((m) => m.to)).to.be.deep.equal([['_', 'close']])
+  })
+})
+
+describe('[registry.ts] RpcChannel discovery', () => {
+  class Service {
+    @RpcAddress(['net', 'kb1rd', 'add'])
+    @EnforceMethodArgSchema({ type: 'array', items: [{ type: 'number' }] })
+    add(src: RpcChannel, wc: string[], x: number): number {
+      return x + 1
+    }
+    @RpcAddress(['net', 'kb1rd', undefined, 'count'])
+    @ReturnsGenerator()
+    @RequirePermissions(['count'])
+    async *count(): AsyncGenerator<number, void, unknown> {
+      yield 1
+    }
+  }
+  const link = (opts: RpcChannelOpts) => {
+    let a: RpcChannel | undefined
+    const b: RpcChannel = new RpcChannel(
+      (msg) => (a as RpcChannel).receive(msg),
+      undefined,
+      undefined,
+      opts
+    )
+    a = new RpcChannel((msg) => b.receive(msg))
+    return [a, b]
+  }
+  it('lists remote functions', async () => {
+    const [a, b] = link({ discovery: true })
+    b.registerAll((new Service() as unknown) as {})
+    expect(await a.discover()).to.be.deep.equal([
+      {
+        address: ['net', 'kb1rd', 'add'],
+        returns: 'promise',
+        schema: { type: 'array', items: [{ type: 'number' }] }
+      },
+      {
+        address: ['net', 'kb1rd', null, 'count'],
+        returns: 'generator',
+        permissions: ['count']
+      }
+    ])
+  })
+  it('caches list until refreshed', async () => {
+    const [a, b] = link({ discovery: true })
+    let requests = 0
+    b.on('rawmessage', (msg: RpcMessage) => {
+      if (msg.to[1] === 'describe') {
+        requests++
+      }
+    })
+    const first = await a.discover()
+    b.register(['net', 'kb1rd', 'hello'], () => 'hi')
+    expect(await a.discover()).to.be.equal(first)
+    expect(requests).to.be.equal(1)
+    expect((await a.discover(true)).length).to.be.equal(1)
+    expect(requests).to.be.equal(2)
+  })
+  it('is not served unless enabled', async () => {
+    const [a] = link({})
+    const error = await a.discover().catch((e) => e)
+    expect(error).to.be.an.instanceOf(RpcNotFoundError)
+    // Failures are not cached
+    expect(await a.discover().catch((e) => e)).to.not.be.equal(error)
+  })
+  it('is access controlled', async () => {
+    const [a, b] = link({ discovery: true })
+    b.access_controller = new FunctionAccessController((addr) =>
+      addr[1] === 'describe' ? false : undefined
+    )
+    const error = await a.discover().catch((e) => e)
+    expect(error).to.be.an.instanceOf(AccessDeniedError)
+  })
+  it('only lists functions the caller may call', async () => {
+    const [a, b] = link({ discovery: true })
+    b.registerAll((new Service() as unknown) as {})
+    b.register(['net', 'kb1rd', 'secret', undefined], () => 'hi')
+    b.access_controller = new AutoFunctionAccessController()
+    b._i_reg.access_chain.push(
+      new FunctionAccessController((addr) =>
+        addr[2] === 'secret' ? false : undefined
+      )
+    )
+    const endpoints = await a.discover()
+    expect(endpoints.map((e) => e.address)).to.be.deep.equal([
+      ['net', 'kb1rd', 'add']
+    ])
+  })
+  it('keeps permissions of functions registered with registerAll', async () => {
+    const [a, b] = link({})
+    b.access_controller = new AutoFunctionAccessController()
+    b.registerAll((new Service() as unknown) as {})
+    const error = await a.call(['net', 'kb1rd', 'x', 'count']).catch((e) => e)
+    expect(error).to.be.an.instanceOf(AccessDeniedError)
+  })
+})
+
+describe('[registry.ts] RpcChannel result schemas', () => {
+  const link = () => {
+    let a: RpcChannel | undefined
+    const b: RpcChannel = new RpcChannel(
+      (msg) => (a as RpcChannel).receive(msg),
+      undefined,
+      undefined,
+      { discovery: true }
+    )
+    a = new RpcChannel((msg) => b.receive(msg))
+    return [a, b]
+  }
+  const number = { type: 'number' }
+  it('fails calls if result does not match', async () => {
+    const [a, b] = link()
+    b.register(
+      ['net', 'kb1rd', 'enforced'],
+      ResultSchema({ returns: number, enforce: true }, () => 'a')
+    )
+    b.register(
+      ['net', 'kb1rd', 'async'],
+      ResultSchema({ returns: number, enforce: true }, async () => 1)
+    )
+    b.register(
+      ['net', 'kb1rd', 'declared'],
+      ResultSchema({ returns: number }, () => 'a')
+    )
+    const error = await a.call(['net', 'kb1rd', 'enforced']).catch((e) => e)
+    expect(error.name).to.be.equal('ValidationError')
+    expect(error.errors[0].message).to.be.equal('should be number')
+    expect(await a.call(['net', 'kb1rd', 'async'])).to.be.equal(1)
+    expect(await a.call(['net', 'kb1rd', 'declared'])).to.be.equal('a')
+  })
+  it('checks yielded values', async () => {
+    const [a, b] = link()
+    class Service {
+      @RpcAddress(['net', 'kb1rd', 'count'])
+      @ReturnsGenerator()
+      @MethodResultSchema({ yields: number, enforce: true })
+      async *count(): AsyncGenerator<unknown, void, unknown> {
+        yield 1
+        yield 'two'
+      }
+    }
+    b.registerAll((new Service() as unknown) as {})
+    const values: unknown[] = []
+    const error = await (async () => {
+      for await (const v of a.generate(['net', 'kb1rd', 'count'])) {
+        values.push(v)
+      }
+    })().catch((e) => e)
+    expect(values).to.be.deep.equal([1])
+    expect(error.name).to.be.equal('ValidationError')
+    expect(await a.discover()).to.be.deep.equal([
+      {
+        address: ['net', 'kb1rd', 'count'],
+        returns: 'generator',
+        yield_schema: number
+      }
+    ])
+  })
+})
+
+describe('[registry.ts] RpcChannel argument schemas', () => {
+  const schema = {
+    type: 'array',
+    items: [
+      { type: 'object' },
+      { type: 'array', items: { type: 'string' } },
+      { type: 'number' },
+      { type: 'number' }
+    ]
+  }
+  const add = EnforceArgumentSchema(
+    schema,
+    (c: RpcChannel, w: string[], x: number, y: number) => x + y
+  )
+  let a: RpcChannel
+  let b: RpcChannel
+  let sent: RpcMessage[]
+  beforeEach(() => {
+    sent = []
+    b = new RpcChannel((msg) => a.receive(msg), undefined, undefined, {
+      discovery: true
+    })
+    a = new RpcChannel((msg) => {
+      sent.push(msg)
+      b.receive(msg)
+    })
+    b.register(['net', 'kb1rd', 'add'], add as RpcFunction)
+  })
+  afterEach(() => {
+    a.close()
+    b.close()
+  })
+  it('fails with the same error as the remote end', async () => {
+    const remote = await a
+      .call(['net', 'kb1rd', 'add'], [1, '2'])
+      .catch((e) => e)
+    a.setArgumentSchema(['net', 'kb1rd', 'add'], schema)
+    sent.length = 0
+    const local = await a
+      .call(['net', 'kb1rd', 'add'], [1, '2'])
+      .catch((e) => e)
+    expect(sent.length).to.be.equal(0)
+    expect(remote).to.be.an.instanceOf(RpcInvalidArgumentsError)
+    expect(local).to.be.an.instanceOf(RpcInvalidArgumentsError)
+    expect(local.cause).to.be.an.instanceOf(Ajv.ValidationError)
+    expect(local.cause.errors).to.be.deep.equal(remote.cause.errors)
+    expect(local.cause.errors[0].dataPath).to.be.equal('[3]')
+    expect(await a.call(['net', 'kb1rd', 'add'], [1, 2])).to.be.equal(3)
+
+    a.setArgumentSchema(['net', 'kb1rd', 'add'], undefined)
+    sent.length = 0
+    await a.call(['net', 'kb1rd', 'add'], [1, '2']).catch((e) => e)
+    expect(sent.length).to.be.equal(1)
+  })
+  it('checks send and generate', async () => {
+    a.setArgumentSchema(['net', 'kb1rd', undefined], schema)
+    expect(() => a.send(['net', 'kb1rd', 'add'], ['1'])).to.throw(
+      RpcInvalidArgumentsError
+    )
+    const it = a.generate(['net', 'kb1rd', 'add'], ['1'])
+    expect(await it.next().catch((e) => e)).to.be.an.instanceOf(
+      RpcInvalidArgumentsError
+    )
+    expect(sent.length).to.be.equal(0)
+  })
+  it('checks arguments as they are sent', async () => {
+    a.setArgumentSchema(['net', 'kb1rd', 'add'], schema)
+    const two = { [toRpcSerialized]: () => 2 }
+    expect(await a.call(['net', 'kb1rd', 'add'], [1, two])).to.be.equal(3)
+    const error = await a
+      .call(['net', 'kb1rd', 'add'], [1, Proxied(() => 2)])
+      .catch((e) => e)
+    expect(error).to.be.an.instanceOf(RpcInvalidArgumentsError)
+    expect(a.exported_refs).to.be.equal(0)
+  })
+  it('fetches schemas from remote end', async () => {
+    b.register(
+      ['net', 'kb1rd', undefined, 'ctx'],
+      UseCallContext(
+        EnforceArgumentSchema(
+          { type: 'array', items: [{ type: 'string' }] },
+          (ctx: RpcCallContext, name: SerializedData) => name
+        )
+      )
+    )
+    await a.fetchArgumentSchemas()
+    sent.length = 0
+    const error = await a.call(['net', 'kb1rd', 'add'], ['1']).catch((e) => e)
+    expect(error).to.be.an.instanceOf(RpcInvalidArgumentsError)
+    expect(
+      await a.call(['net', 'kb1rd', 'x', 'ctx'], [1]).catch((e) => e)
+    ).to.be.an.instanceOf(RpcInvalidArgumentsError)
+    expect(await a.call(['net', 'kb1rd', 'x', 'ctx'], ['hi'])).to.be.equal('hi')
+    expect(sent.length).to.be.equal(1)
+  })
+  it('only fetches schemas that pass the filter', async () => {
+    await a.fetchArgumentSchemas(false, ({ address }) => address[2] !== 'add')
+    sent.length = 0
+    await a.call(['net', 'kb1rd', 'add'], ['1']).catch((e) => e)
+    expect(sent.length).to.be.equal(1)
+  })
+})
+
+describe('[registry.ts] RpcChannel events', () => {
+  let a: RpcChannel
+  let b: RpcChannel
+  let events: [string, MultistringAddress, SerializedData[]][]
+  const handler = (name: string) => (
+    topic: MultistringAddress,
+    ...data: SerializedData[]
+  ) => {
+    events.push([name, topic, data])
+  }
+  const flush = () => new Promise((res) => setTimeout(res, static_await_delay))
+  beforeEach(() => {
+    events = []
+    b = new RpcChannel((msg) => a.receive(msg))
+    a = new RpcChannel((msg) => b.receive(msg))
+  })
+  afterEach(() => {
+    a.close()
+    b.close()
+  })
+  it('sends events to matching subscriptions', async () => {
+    await a.subscribe(['chat', 'general'], handler('exact'))
+    await a.subscribe(['chat', undefined], handler('wildcard'))
+    expect(b.publish(['chat', 'general'], 'hi', 1)).to.be.equal(2)
+    expect(b.publish(['chat', 'random'], 'yo')).to.be.equal(1)
+    expect(b.publish(['chat'], 'nope')).to.be.equal(0)
+    await flush()
+    expect(events).to.be.deep.equal([
+      ['exact', ['chat', 'general'], ['hi', 1]],
+      ['wildcard', ['chat', 'general'], ['hi', 1]],
+      ['wildcard', ['chat', 'random'], ['yo']]
+    ])
+  })
+  it('unsubscribes', async () => {
+    const unsubscribe = await a.subscribe(['chat', undefined], handler('a'))
+    await a.subscribe(['chat', undefined], handler('b'))
+    unsubscribe()
+    unsubscribe()
+    expect(b.publish(['chat', 'general'], 'hi')).to.be.equal(1)
+    await flush()
+    expect(events).to.be.deep.equal([['b', ['chat', 'general'], ['hi']]])
+  })
+  it('forgets subscriptions on close', async () => {
+    await a.subscribe(['chat', undefined], handler('a'))
+    b.close()
+    expect(b.publish(['chat', 'general'], 'hi')).to.be.equal(0)
+  })
+  it('checks access to subscribe', async () => {
+    b.access_controller = new FunctionAccessController((addr) =>
+      addr[0] === 'secret' ? false : undefined
+    )
+    let error = await a.subscribe(['secret', 'x'], handler('a')).catch((e) => e)
+    expect(error).to.be.an.instanceOf(AccessDeniedError)
+    error = await a
+      .subscribe(['secret', undefined], handler('a'))
+      .catch((e) => e)
+    expect(error).to.be.an.instanceOf(AccessDeniedError)
+    expect(b.publish(['secret', 'x'], 'hi')).to.be.equal(0)
+  })
+  it('checks access to publish', async () => {
+    await a.subscribe(['chat', undefined], handler('a'))
+    b.access_controller = new FunctionAccessController((addr, { args }) =>
+      addr[1] === 'private' || args[0] === 'secret' ? false : undefined
+    )
+    expect(b.publish(['chat', 'private'], 'hi')).to.be.equal(0)
+    expect(b.publish(['chat', 'general'], 'secret')).to.be.equal(0)
+    expect(b.publish(['chat', 'general'], 'hi')).to.be.equal(1)
+    await flush()
+    expect(events).to.be.deep.equal([['a', ['chat', 'general'], ['hi']]])
+  })
+  it('rejects invalid topics', async () => {
+    const error = await a
+      .call(['_', 'subscribe'], ['id0', ['chat', 1]])
+      .catch((e) => e)
+    expect(error).to.be.an.instanceOf(RpcInvalidArgumentsError)
+    expect(b.publish(['chat', '1'])).to.be.equal(0)
+  })
+})
+
+describe('[registry.ts] RpcChannel idempotency', () => {
+  let a: RpcChannel
+  let b: RpcChannel
+  let sent: RpcMessage[]
+  let runs: number
+  let cache: IdempotencyCache
+  beforeEach(() => {
+    sent = []
+    runs = 0
+    cache = new IdempotencyCache()
+    b = new RpcChannel((msg) => a.receive(msg), undefined, undefined, {
+      idempotency_cache: cache
+    })
+    a = new RpcChannel((msg) => {
+      sent.push(msg)
+      b.receive(msg)
+    })
+    b.register(['net', 'kb1rd', 'charge'], async (c, w, amount) => {
+      runs++
+      await new Promise((r) => setTimeout(r, static_await_delay))
+      if (amount === 0) {
+        throw new Error('Invalid amount')
+      }
+      return `charged ${amount} (${runs})`
+    })
+  })
+  afterEach(() => {
+    a.close()
+    b.close()
+  })
+  it('runs calls with the same key once', async () => {
+    const opts = { idempotency_key: 'order-1' }
+    const results = await Promise.all([
+      a.call(['net', 'kb1rd', 'charge'], [5], opts),
+      a.call(['net', 'kb1rd', 'charge'], [5], opts)
+    ])
+    expect(results).to.be.deep.equal(['charged 5 (1)', 'charged 5 (1)'])
+    expect(await a.call(['net', 'kb1rd', 'charge'], [5], opts)).to.be.equal(
+      'charged 5 (1)'
+    )
+    expect(sent[0].idempotency_key).to.be.equal('order-1')
+    expect(runs).to.be.equal(1)
+  })
+  it('runs calls with different or no keys', async () => {
+    await a.call(['net', 'kb1rd', 'charge'], [5], { idempotency_key: 'a' })
+    await a.call(['net', 'kb1rd', 'charge'], [5], { idempotency_key: 'b' })
+    await a.call(['net', 'kb1rd', 'charge'], [5])
+    await a.call(['net', 'kb1rd', 'charge'], [5])
+    expect(runs).to.be.equal(4)
+    expect(cache.size).to.be.equal(2)
+  })
+  it('remembers errors', async () => {
+    const opts = { idempotency_key: 'order-1' }
+    const errors = [
+      await a.call(['net', 'kb1rd', 'charge'], [0], opts).catch((e) => e),
+      await a.call(['net', 'kb1rd', 'charge'], [0], opts).catch((e) => e)
+    ]
+    expect(errors.map((e) => e.message)).to.be.deep.equal([
+      'Invalid amount',
+      'Invalid amount'
+    ])
+    expect(runs).to.be.equal(1)
+  })
+  it('checks access before using the cache', async () => {
+    const opts = { idempotency_key: 'order-1' }
+    await a.call(['net', 'kb1rd', 'charge'], [5], opts)
+    b.access_controller = new FunctionAccessController(() => false)
+    const error = await a
+      .call(['net', 'kb1rd', 'charge'], [5], opts)
+      .catch((e) => e)
+    expect(error).to.be.an.instanceOf(AccessDeniedError)
+  })
+  it('does not remember calls that timed out', async () => {
+    let slow = true
+    b.register(
+      ['net', 'kb1rd', 'slow'],
+      UseCallContext((ctx) => {
+        runs++
+        if (!slow) {
+          return 'done'
+        }
+        return new Promise((resolve, reject) => {
+          const signal = ctx.signal as AbortSignal
+          signal.addEventListener('abort', () => reject(new Error('Aborted')))
+        })
+      })
+    )
+    const opts = { idempotency_key: 'order-1' }
+    const error = await a
+      .call(['net', 'kb1rd', 'slow'], [], { ...opts, timeout: 5 })
+      .catch((e) => e)
+    expect(error).to.be.an.instanceOf(RpcTimeoutError)
+    await new Promise((r) => setTimeout(r, static_await_delay))
+    expect(cache.size).to.be.equal(0)
+
+    slow = false
+    expect(await a.call(['net', 'kb1rd', 'slow'], [], opts)).to.be.equal('done')
+    expect(runs).to.be.equal(2)
+  })
+})
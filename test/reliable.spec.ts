@@ -0,0 +1,228 @@
+import { expect } from 'chai'
+import {
+  ReliableTransport,
+  RpcMessage,
+  Transport,
+  createChannel
+} from '../src/index'
+
+const delay = (ms = 5) => new Promise((r) => setTimeout(r, ms))
+
+/**
+ * One end of a network that can lose, duplicate, or reorder messages
+ */
+class LossyTransport implements Transport {
+  remote?: LossyTransport
+  onmessage?: (msg: RpcMessage) => void
+  onclose?: () => void
+  sent: RpcMessage[] = []
+  closed = false
+  /**
+   * Decides what to do with each sent message. Held messages can be
+   * delivered later with `flush`.
+   */
+  filter: (msg: RpcMessage) => 'send' | 'drop' | 'hold' | 'duplicate' = () =>
+    'send'
+  held: RpcMessage[] = []
+
+  send(msg: RpcMessage): void {
+    this.sent.push(msg)
+    const action = this.filter(msg)
+    if (action === 'hold') {
+      this.held.push(msg)
+    } else if (action !== 'drop') {
+      this.deliver(msg)
+      if (action === 'duplicate') {
+        this.deliver(msg)
+      }
+    }
+  }
+  deliver(msg: RpcMessage): void {
+    const remote = this.remote as LossyTransport
+    setTimeout(() => remote.onmessage && remote.onmessage(msg), 0)
+  }
+  flush(): void {
+    this.held.forEach((msg) => this.deliver(msg))
+    this.held = []
+  }
+  listen(onmessage: (msg: RpcMessage) => void, onclose: () => void): void {
+    this.onmessage = onmessage
+    this.onclose = onclose
+  }
+  close(): void {
+    this.closed = true
+  }
+}
+
+describe('[reliable.ts] ReliableTransport', () => {
+  let net_a: LossyTransport
+  let net_b: LossyTransport
+  let a: ReliableTransport
+  let b: ReliableTransport
+  let received: RpcMessage[]
+  const msg = (n: number): RpcMessage => ({ to: ['net', 'kb1rd'], args: [n] })
+  beforeEach(() => {
+    net_a = new LossyTransport()
+    net_b = new LossyTransport()
+    net_a.remote = net_b
+    net_b.remote = net_a
+    const opts = { retransmit_timeout: 10, ack_delay: 1 }
+    a = new ReliableTransport(net_a, opts)
+    b = new ReliableTransport(net_b, opts)
+    received = []
+    a.listen(
+      () => undefined,
+      () => undefined
+    )
+    b.listen(
+      (m) => received.push(m),
+      () => undefined
+    )
+  })
+  afterEach(() => {
+    a.close()
+    b.close()
+  })
+  it('numbers messages and delivers them without numbers', async () => {
+    a.send(msg(0), [])
+    a.send(msg(1), [])
+    expect(net_a.sent.map((m) => m.seq)).to.be.deep.equal([0, 1])
+    await delay()
+    expect(received).to.be.deep.equal([msg(0), msg(1)])
+  })
+  it('delivers in order', async () => {
+    net_a.filter = (m) => (m.seq === 0 ? 'hold' : 'send')
+    a.send(msg(0), [])
+    a.send(msg(1), [])
+    a.send(msg(2), [])
+    await delay(2)
+    expect(received).to.be.deep.equal([])
+    net_a.flush()
+    await delay(2)
+    expect(received).to.be.deep.equal([msg(0), msg(1), msg(2)])
+  })
+  it('drops duplicates', async () => {
+    net_a.filter = () => 'duplicate'
+    a.send(msg(0), [])
+    a.send(msg(1), [])
+    await delay()
+    expect(received).to.be.deep.equal([msg(0), msg(1)])
+  })
+  it('acknowledges messages', async () => {
+    a.send(msg(0), [])
+    expect(a.unacknowledged).to.be.equal(1)
+    await delay()
+    expect(a.unacknowledged).to.be.equal(0)
+    expect(net_b.sent).to.be.deep.equal([
+      {
+        to: ['_', 'ack'],
+        args: [],
+        ack: 1,
+        session: b.session,
+        peer: a.session
+      }
+    ])
+  })
+  it('sends lost messages again', async () => {
+    let drops = 2
+    net_a.filter = () => (drops-- > 0 ? 'drop' : 'send')
+    a.send(msg(0), [])
+    await delay(50)
+    expect(received).to.be.deep.equal([msg(0)])
+    expect(net_a.sent.length).to.be.equal(3)
+    expect(a.unacknowledged).to.be.equal(0)
+  })
+  it('closes after max_retransmits', async () => {
+    let closed = false
+    a = new ReliableTransport(net_a, {
+      retransmit_timeout: 1,
+      max_retransmits: 2
+    })
+    a.listen(
+      () => undefined,
+      () => (closed = true)
+    )
+    net_a.filter = () => 'drop'
+    a.send(msg(0), [])
+    await delay(20)
+    expect(closed).to.be.true
+    expect(net_a.closed).to.be.true
+    expect(net_a.sent.length).to.be.equal(3)
+    expect(() => a.send(msg(1), [])).to.throw('Transport closed')
+  })
+  it('waits longer each time a message is sent again', async () => {
+    a = new ReliableTransport(net_a, {
+      retransmit_timeout: 4,
+      max_retransmits: Infinity
+    })
+    a.listen(
+      () => undefined,
+      () => undefined
+    )
+    net_a.filter = () => 'drop'
+    a.send(msg(0), [])
+    await delay(40)
+    // Sent at 0, 4, 12, and 28 ms
+    expect(net_a.sent.length).to.be.at.most(4)
+  })
+  it('limits unacknowledged messages', () => {
+    a = new ReliableTransport(net_a, { max_unacked: 2 })
+    net_a.filter = () => 'drop'
+    a.send(msg(0), [])
+    a.send(msg(1), [])
+    expect(() => a.send(msg(2), [])).to.throw(
+      'Too many unacknowledged messages'
+    )
+    expect(a.unacknowledged).to.be.equal(2)
+  })
+  it('closes when the remote end restarts', async () => {
+    let closed = false
+    a.listen(
+      () => undefined,
+      () => (closed = true)
+    )
+    a.send(msg(0), [])
+    await delay()
+    b.close()
+    const restarted: RpcMessage[] = []
+    b = new ReliableTransport(net_b, { retransmit_timeout: 10, ack_delay: 1 })
+    b.listen(
+      (m) => restarted.push(m),
+      () => undefined
+    )
+    // Meant for the earlier session, so it is ignored but answered
+    a.send(msg(1), [])
+    await delay()
+    expect(restarted).to.be.deep.equal([])
+    expect(closed).to.be.true
+    expect(net_a.closed).to.be.true
+
+    a = new ReliableTransport(net_a, { retransmit_timeout: 10, ack_delay: 1 })
+    a.listen(
+      () => undefined,
+      () => undefined
+    )
+    a.send(msg(2), [])
+    await delay()
+    expect(restarted).to.be.deep.equal([msg(2)])
+  })
+  it('carries calls over a lossy network', async () => {
+    let n = 0
+    net_a.filter = () => (n++ % 3 === 0 ? 'drop' : 'send')
+    net_b.filter = () => (n++ % 4 === 0 ? 'hold' : 'duplicate')
+    const ca = createChannel(a)
+    const cb = createChannel(b)
+    cb.register(['net', 'kb1rd', 'add'], (c, w, x, y) => {
+      return (x as number) + (y as number)
+    })
+    await Promise.all([ca.start(), cb.start()])
+    const results = Promise.all(
+      [1, 2, 3, 4].map((x) => ca.call(['net', 'kb1rd', 'add'], [x, 1]))
+    )
+    await delay(20)
+    net_b.flush()
+    expect(await results).to.be.deep.equal([2, 3, 4, 5])
+    ca.close()
+    cb.close()
+  })
+})
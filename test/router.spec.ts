@@ -0,0 +1,238 @@
+import { expect } from 'chai'
+import {
+  RpcRouter,
+  RpcChannel,
+  RpcState,
+  RpcNotFoundError,
+  AccessDeniedError,
+  FunctionAccessController,
+  UseCallContext,
+  RpcCallContext
+} from '../src/index'
+
+const delay = (ms = 5) => new Promise((r) => setTimeout(r, ms))
+
+/**
+ * Creates a peer connected to `router` as `id`
+ */
+function peer(router: RpcRouter, id: string): RpcChannel {
+  let local: RpcChannel | undefined
+  const remote = new RpcChannel((msg) =>
+    setTimeout(() => (local as RpcChannel).receive(msg), 0)
+  )
+  local = new RpcChannel((msg) => setTimeout(() => remote.receive(msg), 0))
+  router.connect(id, remote)
+  return local
+}
+
+describe('[router.ts] RpcRouter', () => {
+  let router: RpcRouter
+  let a: RpcChannel
+  let b: RpcChannel
+  beforeEach(() => {
+    router = new RpcRouter()
+    a = peer(router, 'a')
+    b = peer(router, 'b')
+  })
+  afterEach(() => {
+    router.close()
+    a.close()
+    b.close()
+  })
+  it('relays by peer id', async () => {
+    b.register(['net', 'kb1rd', 'add'], (c, w, x, y) => {
+      return (x as number) + (y as number)
+    })
+    expect(
+      await a.call(['peer', 'b', 'net', 'kb1rd', 'add'], [1, 2])
+    ).to.be.equal(3)
+  })
+  it('relays by prefix', async () => {
+    b.register(['net', 'kb1rd', 'db', undefined], (c, w) => w[0])
+    router.route(['net', 'kb1rd', 'db'], 'b')
+    expect(await a.call(['net', 'kb1rd', 'db', 'get'])).to.be.equal('get')
+    expect(router.resolve(['net', 'kb1rd', 'db', 'get'])).to.be.deep.equal([
+      'b',
+      ['net', 'kb1rd', 'db', 'get']
+    ])
+  })
+  it('uses longest matching prefix', () => {
+    router.route(['net'], 'a')
+    router.route(['net', undefined, 'db'], 'b')
+    expect(router.resolve(['net', 'kb1rd', 'db'])?.[0]).to.be.equal('b')
+    expect(router.resolve(['net', 'kb1rd'])?.[0]).to.be.equal('a')
+    expect(router.unroute(['net', null, 'db'])).to.be.true
+    expect(router.resolve(['net', 'kb1rd', 'db'])?.[0]).to.be.equal('a')
+    expect(router.resolve(['_', 'close'])).to.be.undefined
+  })
+  it('serves functions registered with router', async () => {
+    router.reg.register(['net', 'kb1rd', 'hello'], () => 'hi')
+    expect(await a.call(['net', 'kb1rd', 'hello'])).to.be.equal('hi')
+  })
+  it('fails if there is no route', async () => {
+    router.route(['net', 'kb1rd'], 'a')
+    const errors = await Promise.all([
+      a.call(['net', 'kb1rd', 'hello']).catch((e) => e),
+      a.call(['peer', 'c', 'hello']).catch((e) => e),
+      a.call(['org', 'hello']).catch((e) => e)
+    ])
+    errors.forEach((e) => expect(e).to.be.an.instanceOf(RpcNotFoundError))
+  })
+  it('relays errors', async () => {
+    b.register(['net', 'kb1rd', 'fail'], () => {
+      throw new RangeError('yeet')
+    })
+    const error = await a
+      .call(['peer', 'b', 'net', 'kb1rd', 'fail'])
+      .catch((e) => e)
+    expect(error).to.be.an.instanceOf(RangeError)
+    expect(error.message).to.be.equal('yeet')
+  })
+  it('relays generators with flow control', async () => {
+    let generated = 0
+    b.register(['net', 'kb1rd', 'count'], async function* () {
+      for (let i = 0; i < 10; i++) {
+        generated++
+        yield i
+      }
+      return 'done'
+    })
+    const it = a.generate(['peer', 'b', 'net', 'kb1rd', 'count'], [], {
+      high_water_mark: 2
+    })
+    expect(await it.next()).to.be.deep.equal({ value: 0, done: false })
+    await delay(20)
+    expect(generated).to.be.below(10)
+    const values: unknown[] = []
+    let r: IteratorResult<unknown>
+    while (!(r = await it.next()).done) {
+      values.push(r.value)
+    }
+    expect(values).to.be.deep.equal([1, 2, 3, 4, 5, 6, 7, 8, 9])
+    expect(r.value).to.be.equal('done')
+  })
+  it('relays deadlines and idempotency keys', async () => {
+    const received: unknown[] = []
+    b.register(
+      ['net', 'kb1rd', 'get'],
+      UseCallContext((ctx: RpcCallContext) => {
+        received.push([ctx.deadline, ctx.message.idempotency_key])
+        return 'got'
+      })
+    )
+    b.register(
+      ['net', 'kb1rd', 'list'],
+      UseCallContext(async function* (ctx: RpcCallContext) {
+        received.push([ctx.deadline, ctx.message.idempotency_key])
+        yield 'got'
+      })
+    )
+    const deadline = Date.now() + 1000
+    const opts = { deadline, idempotency_key: 'yeet' }
+    expect(
+      await a.call(['peer', 'b', 'net', 'kb1rd', 'get'], [], opts)
+    ).to.be.equal('got')
+    const it = a.generate(['peer', 'b', 'net', 'kb1rd', 'list'], [], opts)
+    expect(await it.next()).to.be.deep.equal({ value: 'got', done: false })
+    expect(received).to.be.deep.equal([
+      [deadline, 'yeet'],
+      [deadline, 'yeet']
+    ])
+  })
+  it('relays next values only to bidirectional generators', async () => {
+    const received: unknown[] = []
+    b.register(['net', 'kb1rd', 'echo'], async function* () {
+      received.push(yield 'a')
+      received.push(yield 'b')
+    })
+    const it = a.generate(['peer', 'b', 'net', 'kb1rd', 'echo'], [], {
+      bidirectional: true
+    })
+    expect((await it.next()).value).to.be.equal('a')
+    expect((await it.next('x')).value).to.be.equal('b')
+    expect((await it.next('y')).done).to.be.true
+    expect(received).to.be.deep.equal(['x', 'y'])
+
+    received.length = 0
+    const it2 = a.generate(['peer', 'b', 'net', 'kb1rd', 'echo'], [], {
+      high_water_mark: 4
+    })
+    expect((await it2.next()).value).to.be.equal('a')
+    expect((await it2.next('x')).value).to.be.equal('b')
+    expect((await it2.next('y')).done).to.be.true
+    expect(received).to.be.deep.equal([undefined, undefined])
+  })
+  it('relays cancellation', async () => {
+    let cancelled = false
+    b.register(
+      ['net', 'kb1rd', 'wait'],
+      UseCallContext(
+        (ctx: RpcCallContext) =>
+          new Promise((resolve) => {
+            ctx.signal?.addEventListener('abort', () => {
+              cancelled = true
+              resolve(undefined)
+            })
+          })
+      )
+    )
+    const controller = new AbortController()
+    const promise = a.call(['peer', 'b', 'net', 'kb1rd', 'wait'], [], {
+      signal: controller.signal
+    })
+    await delay()
+    controller.abort()
+    await promise.catch(() => undefined)
+    await delay(20)
+    expect(cancelled).to.be.true
+  })
+  it('relays messages without return address', async () => {
+    let received: unknown
+    b.register(['net', 'kb1rd', 'push'], (c, w, v) => {
+      received = v
+    })
+    a.send(['peer', 'b', 'net', 'kb1rd', 'push'], ['hi'])
+    await delay(20)
+    expect(received).to.be.equal('hi')
+  })
+  it('enforces access control at each hop', async () => {
+    b.register(['net', 'kb1rd', 'hello'], () => 'hi')
+    ;(router.get(
+      'a'
+    ) as RpcChannel).access_controller = new FunctionAccessController(
+      (addr) => addr[1] !== 'b'
+    )
+    const error = await a
+      .call(['peer', 'b', 'net', 'kb1rd', 'hello'])
+      .catch((e) => e)
+    expect(error).to.be.an.instanceOf(AccessDeniedError)
+    b.access_controller = new FunctionAccessController(() => false)
+    router.route(['net'], 'b')
+    const error2 = await a.call(['net', 'kb1rd', 'hello']).catch((e) => e)
+    expect(error2).to.be.an.instanceOf(AccessDeniedError)
+  })
+  it('does not relay back to caller', async () => {
+    a.register(['net', 'kb1rd', 'hello'], () => 'hi')
+    const error = await a
+      .call(['peer', 'a', 'net', 'kb1rd', 'hello'])
+      .catch((e) => e)
+    expect(error).to.be.an.instanceOf(RpcNotFoundError)
+  })
+  it('disconnects peers when channels close', () => {
+    let disconnected: string | undefined
+    router.on('disconnect', (id: string) => (disconnected = id))
+    router.route(['net'], 'b')
+    expect(router.ids).to.be.deep.equal(['a', 'b'])
+    const channel = router.get('b') as RpcChannel
+    channel.close()
+    expect(channel.state).to.be.equal(RpcState.CLOSED)
+    expect(disconnected).to.be.equal('b')
+    expect(router.ids).to.be.deep.equal(['a'])
+    expect(router.resolve(['net', 'kb1rd'])).to.be.undefined
+  })
+  it('throws if id is already connected', () => {
+    expect(() => router.connect('a', new RpcChannel(() => undefined))).to.throw(
+      'Peer a is already connected'
+    )
+  })
+})
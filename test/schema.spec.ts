@@ -1,5 +1,16 @@
 import { expect } from 'chai'
-import { EnforceArgumentSchema, EnforceMethodArgSchema } from '../src/schema'
+import Ajv from 'ajv'
+import {
+  EnforceArgumentSchema,
+  EnforceMethodArgSchema,
+  ResultSchema,
+  MethodResultSchema,
+  RpcArgumentSchema,
+  RpcResultSchema,
+  checkResult
+} from '../src/schema'
+import { RpcChannel } from '../src/registry'
+import { RpcCallContext } from '../src/context'
 
 describe('[schema.ts] schema validators', () => {
   describe('EnforceArgumentSchema', () => {
@@ -23,6 +34,20 @@ describe('[schema.ts] schema validators', () => {
         EnforceArgumentSchema(schema, func)('abc', '123')
       }).to.be.throw()
     })
+    it('does not validate call context', () => {
+      const schema = {
+        type: 'array',
+        items: [{ type: 'string' }, { type: 'number' }]
+      }
+      const ctx = new RpcCallContext(new RpcChannel(() => undefined), [], {
+        to: [],
+        args: []
+      })
+      const func = (c: RpcCallContext, a: string, b: number): string => (a + b)
+      expect(
+        EnforceArgumentSchema(schema, func)(ctx, 'abc', 123)
+      ).to.be.equal('abc123')
+    })
   })
   describe('EnforceMethodArgSchema', () => {
     class Test {
@@ -81,4 +106,78 @@ describe('[schema.ts] schema validators', () => {
       }).to.throw('Cannot validate schema for non-function')
     })
   })
+  describe('ResultSchema', () => {
+    it('sets schemas on function', () => {
+      const schemas = { returns: { type: 'number' } }
+      const func = () => 1
+      expect(ResultSchema(schemas, func)).to.be.equal(func)
+      expect((func as any)[RpcResultSchema]).to.be.equal(schemas)
+    })
+    it('is kept by EnforceArgumentSchema', () => {
+      const schemas = { returns: { type: 'number' } }
+      const func = EnforceArgumentSchema(
+        { type: 'array' },
+        ResultSchema(schemas, () => 1)
+      )
+      expect((func as any)[RpcResultSchema]).to.be.equal(schemas)
+      expect((func as any)[RpcArgumentSchema]).to.be.deep.equal({
+        type: 'array'
+      })
+    })
+  })
+  describe('MethodResultSchema', () => {
+    it('sets schemas on method', () => {
+      class Test {
+        @EnforceMethodArgSchema({ type: 'array' })
+        @MethodResultSchema({ yields: { type: 'string' }, enforce: true })
+        test(): number {
+          return 1
+        }
+      }
+      expect((new Test().test as any)[RpcResultSchema]).to.be.deep.equal({
+        yields: { type: 'string' },
+        enforce: true
+      })
+    })
+  })
+  describe('checkResult', () => {
+    const schemas = { returns: { type: 'number' }, yields: { type: 'string' } }
+    it('checks values', () => {
+      expect(checkResult(1, schemas)).to.be.equal(1)
+      expect(() => checkResult('1', schemas)).to.throw(Ajv.ValidationError)
+      expect(checkResult('1', {})).to.be.equal('1')
+    })
+    it('checks resolved values', async () => {
+      expect(await checkResult(Promise.resolve(1), schemas)).to.be.equal(1)
+      const error = await checkResult(Promise.resolve('1'), schemas).catch(
+        (e) => e
+      )
+      expect(error).to.be.an.instanceOf(Ajv.ValidationError)
+    })
+    it('checks yielded and returned values', async () => {
+      let finished = false
+      async function* gen(): AsyncGenerator<unknown, unknown, unknown> {
+        try {
+          yield 'a'
+          yield 2
+        } finally {
+          finished = true
+        }
+        return 3
+      }
+      const it = checkResult(gen(), schemas)
+      expect(await it.next()).to.be.deep.equal({ value: 'a', done: false })
+      const error = await it.next().catch((e) => e)
+      expect(error).to.be.an.instanceOf(Ajv.ValidationError)
+      expect(finished).to.be.true
+
+      const returns = async function* () {
+        return 'a'
+      }
+      const error2 = await checkResult(returns(), schemas)
+        .next()
+        .catch((e) => e)
+      expect(error2).to.be.an.instanceOf(Ajv.ValidationError)
+    })
+  })
 })
\ No newline at end of file
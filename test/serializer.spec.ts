@@ -2,7 +2,10 @@ import { expect } from 'chai'
 import {
   toRpcSerialized,
   rpcSerialize,
-  SerializedData
+  SerializedData,
+  SerializableData,
+  Proxied,
+  TypeRegistry
 } from '../src/index'
 
 describe('[serializer.ts] rpcSerialize', () => {
@@ -121,4 +124,158 @@ describe('[serializer.ts] rpcSerialize', () => {
     expect(xfer.length).to.be.equal(1)
     expect(xfer[0]).to.be.equal(ab)
   })
+  it('throws error when given proxied value without proxy function', () => {
+    expect(() => {
+      rpcSerialize(
+        Proxied(() => undefined),
+        []
+      )
+    }).to.throw('Proxied values can only be sent over an RpcChannel')
+  })
+  it('converts proxied values with proxy function', () => {
+    const func = Proxied(() => undefined)
+    const targets: unknown[] = []
+    const result = rpcSerialize({ a: [func] }, [], (target) => {
+      targets.push(target)
+      return 'ref'
+    })
+    expect(result).to.be.deep.equal({ a: ['ref'] })
+    expect(targets).to.be.deep.equal([func])
+  })
+})
+
+class Vector3 {
+  constructor(public x: number, public y: number, public z: number) {}
+  length(): number {
+    return Math.sqrt(this.x * this.x + this.y * this.y + this.z * this.z)
+  }
+}
+class UnitVector3 extends Vector3 {}
+const data = (v: unknown) => v as SerializableData
+
+function vectorTypes(): TypeRegistry {
+  return new TypeRegistry().register(
+    'Vector3',
+    Vector3,
+    (v) => [v.x, v.y, v.z],
+    (d) => {
+      const [x, y, z] = d as number[]
+      return new Vector3(x, y, z)
+    }
+  )
+}
+
+describe('[serializer.ts] TypeRegistry', () => {
+  it('sends registered classes as tokens', () => {
+    const types = vectorTypes()
+    const result = rpcSerialize(
+      { v: data(new Vector3(1, 2, 3)) },
+      [],
+      undefined,
+      { types }
+    )
+    expect(result).to.be.deep.equal({
+      v: { rpc_type: 'Vector3', value: [1, 2, 3] }
+    })
+  })
+  it('revives registered classes', () => {
+    const types = vectorTypes()
+    const result = types.revive(
+      rpcSerialize([data(new Vector3(3, 4, 0)), 'a'], [], undefined, { types })
+    ) as [Vector3, string]
+    expect(result[0]).to.be.an.instanceOf(Vector3)
+    expect(result[0].length()).to.be.equal(5)
+    expect(result[1]).to.be.equal('a')
+  })
+  it('sends subclasses with the tag of the base class', () => {
+    const types = vectorTypes()
+    expect(
+      rpcSerialize(data(new UnitVector3(1, 0, 0)), [], undefined, { types })
+    ).to.be.deep.equal({ rpc_type: 'Vector3', value: [1, 0, 0] })
+    types.register(
+      'UnitVector3',
+      UnitVector3,
+      (v) => [v.x, v.y, v.z],
+      (d) => new UnitVector3(...(d as [number, number, number]))
+    )
+    const result = types.revive(
+      rpcSerialize(data(new UnitVector3(1, 0, 0)), [], undefined, { types })
+    )
+    expect(result).to.be.an.instanceOf(UnitVector3)
+  })
+  it('serializes values returned by the serializer', () => {
+    class Mesh {
+      constructor(public origin: Vector3, public data: ArrayBuffer) {}
+    }
+    const types = vectorTypes().register(
+      'Mesh',
+      Mesh,
+      (m) => ({ origin: data(m.origin), data: m.data }),
+      (d) => {
+        const { origin, data } = (d as unknown) as {
+          origin: Vector3
+          data: ArrayBuffer
+        }
+        return new Mesh(origin, data)
+      }
+    )
+    const ab = new ArrayBuffer(2)
+    const xfer: Transferable[] = []
+    const mesh = new Mesh(new Vector3(1, 2, 3), ab)
+    const result = (types.revive(
+      rpcSerialize(data(mesh), xfer, undefined, { types })
+    ) as unknown) as Mesh
+    expect(result).to.be.an.instanceOf(Mesh)
+    expect(result.origin).to.be.an.instanceOf(Vector3)
+    expect(result.data).to.be.equal(ab)
+    expect(xfer).to.be.deep.equal([ab])
+  })
+  it('escapes objects that look like tokens', () => {
+    const types = vectorTypes()
+    const data = { rpc_type: 'Vector3', value: [1, 2, 3] }
+    const result = rpcSerialize(data, [], undefined, { types })
+    expect(result).to.be.deep.equal({ rpc_type: '', value: data })
+    expect(types.revive(result)).to.be.deep.equal(data)
+  })
+  it('leaves data without tokens unchanged', () => {
+    const types = vectorTypes()
+    const data = { a: [1, { b: 'c' }], d: new ArrayBuffer(2) }
+    expect(types.revive(data)).to.be.equal(data)
+  })
+  it('throws on unknown tags', () => {
+    expect(() =>
+      vectorTypes().revive({ rpc_type: 'Matrix', value: [] })
+    ).to.throw('Unknown type Matrix')
+    expect(() => vectorTypes().revive({ rpc_type: '', value: 1 })).to.throw(
+      'Invalid escaped type token'
+    )
+  })
+  it('throws if tag is reused or empty', () => {
+    const types = vectorTypes()
+    expect(() =>
+      types.register(
+        'Vector3',
+        UnitVector3,
+        () => 1,
+        () => new UnitVector3(0, 0, 0)
+      )
+    ).to.throw('Type Vector3 is already registered')
+    expect(() =>
+      types.register(
+        '',
+        UnitVector3,
+        () => 1,
+        () => new UnitVector3(0, 0, 0)
+      )
+    ).to.throw('Type tag cannot be empty')
+  })
+  it('unregisters types', () => {
+    const types = vectorTypes()
+    expect(types.unregister('Vector3')).to.be.true
+    expect(types.has('Vector3')).to.be.false
+    expect(types.unregister('Vector3')).to.be.false
+    expect(
+      rpcSerialize(data(new Vector3(1, 2, 3)), [], undefined, { types })
+    ).to.be.deep.equal({ x: 1, y: 2, z: 3 })
+  })
 })
\ No newline at end of file
@@ -0,0 +1,361 @@
+import { expect } from 'chai'
+import EventEmitter from 'eventemitter3'
+import {
+  RpcChannel,
+  RpcState,
+  createChannel,
+  JsonMessageCodec,
+  MsgpackMessageCodec,
+  LengthPrefixedFraming,
+  NewlineFraming,
+  StreamTransport,
+  DuplexTransport,
+  ChildProcessTransport,
+  WebSocketTransport,
+  WebSocketLike
+} from '../src/index'
+
+const bytes = (...b: number[]) => new Uint8Array(b)
+const text = (s: string) => new TextEncoder().encode(s)
+
+/**
+ * One end of an in-memory byte stream. Written data is split into small
+ * chunks to make sure that framing handles partial messages.
+ */
+class FakeStream extends EventEmitter {
+  peer?: FakeStream
+  ended = false
+  written: Uint8Array[] = []
+  write(chunk: Uint8Array): void {
+    this.written.push(chunk)
+    const peer = this.peer
+    if (peer) {
+      for (let i = 0; i < chunk.length; i += 3) {
+        const part = chunk.slice(i, i + 3)
+        setTimeout(() => peer.emit('data', part), 0)
+      }
+    }
+  }
+  end(): void {
+    this.ended = true
+    const peer = this.peer
+    if (peer) {
+      setTimeout(() => peer.emit('end'), 0)
+    }
+  }
+}
+
+function streamPair(): [FakeStream, FakeStream] {
+  const a = new FakeStream()
+  const b = new FakeStream()
+  a.peer = b
+  b.peer = a
+  return [a, b]
+}
+
+class FakeWebSocket extends EventEmitter implements WebSocketLike {
+  readyState = 0
+  binaryType = 'blob'
+  peer?: FakeWebSocket
+  sent: (string | Uint8Array)[] = []
+  send(data: string | Uint8Array): void {
+    if (this.readyState !== 1) {
+      throw new Error('Socket not open')
+    }
+    this.sent.push(data)
+    const peer = this.peer as FakeWebSocket
+    setTimeout(() => peer.emit('message', { data }), 0)
+  }
+  close(): void {
+    this.readyState = 3
+    const peer = this.peer
+    if (peer) {
+      setTimeout(() => {
+        peer.readyState = 3
+        peer.emit('close', {})
+      }, 0)
+    }
+  }
+  addEventListener(type: string, listener: (ev: { data?: unknown }) => void) {
+    this.on(type, listener)
+  }
+  removeEventListener(
+    type: string,
+    listener: (ev: { data?: unknown }) => void
+  ) {
+    this.off(type, listener)
+  }
+}
+
+/**
+ * An in-process server that hands out connected socket pairs
+ */
+class FakeWebSocketServer extends EventEmitter {
+  connect(): FakeWebSocket {
+    const client = new FakeWebSocket()
+    const server = new FakeWebSocket()
+    client.peer = server
+    server.peer = client
+    setTimeout(() => {
+      client.readyState = server.readyState = 1
+      this.emit('connection', server)
+      client.emit('open', {})
+    }, 0)
+    return client
+  }
+}
+
+const delay = (ms = 5) => new Promise((r) => setTimeout(r, ms))
+
+describe('[stream.ts] LengthPrefixedFraming', () => {
+  it('prefixes length', () => {
+    const f = new LengthPrefixedFraming()
+    expect(f.frame(bytes(1, 2, 3))).to.be.deep.equal(bytes(0, 0, 0, 3, 1, 2, 3))
+  })
+  it('reassembles split frames', () => {
+    const f = new LengthPrefixedFraming()
+    expect(f.push(bytes(0, 0))).to.be.deep.equal([])
+    expect(f.push(bytes(0, 2, 1))).to.be.deep.equal([])
+    expect(f.push(bytes(2, 0, 0, 0, 1, 3, 0))).to.be.deep.equal([
+      bytes(1, 2),
+      bytes(3)
+    ])
+    expect(f.push(bytes(0, 0, 0))).to.be.deep.equal([bytes()])
+  })
+  it('throws if frame too large', () => {
+    const f = new LengthPrefixedFraming(2)
+    expect(() => f.frame(bytes(1, 2, 3))).to.throw('Frame exceeds maximum size')
+    expect(() => f.push(bytes(0, 0, 0, 3))).to.throw(
+      'Frame exceeds maximum size'
+    )
+  })
+})
+
+describe('[stream.ts] NewlineFraming', () => {
+  it('appends newline', () => {
+    const f = new NewlineFraming()
+    expect(f.frame(text('hi'))).to.be.deep.equal(text('hi\n'))
+  })
+  it('throws if payload contains newline', () => {
+    const f = new NewlineFraming()
+    expect(() => f.frame(text('h\ni'))).to.throw(
+      'Newline delimited frames cannot contain newlines'
+    )
+  })
+  it('splits lines and skips blank lines', () => {
+    const f = new NewlineFraming()
+    expect(f.push(text('ab'))).to.be.deep.equal([])
+    expect(f.push(text('c\n\nd\ne'))).to.be.deep.equal([text('abc'), text('d')])
+    expect(f.push(text('\n'))).to.be.deep.equal([text('e')])
+  })
+  it('throws if line too long', () => {
+    const f = new NewlineFraming(2)
+    expect(() => f.push(text('abc'))).to.throw('Frame exceeds maximum size')
+  })
+})
+
+describe('[stream.ts] StreamTransport', () => {
+  ;(['length', 'newline'] as const).forEach((framing) => {
+    describe(`with ${framing} framing`, () => {
+      let a: RpcChannel
+      let b: RpcChannel
+      beforeEach(async () => {
+        const [sa, sb] = streamPair()
+        a = createChannel(new DuplexTransport(sa, { framing }))
+        b = createChannel(new DuplexTransport(sb, { framing }))
+        await Promise.all([a.start(), b.start()])
+      })
+      afterEach(() => {
+        a.close()
+        b.close()
+      })
+      it('calls across streams', async () => {
+        b.register(['net', 'kb1rd', 'add'], (src, wc, x, y) => {
+          return (x as number) + (y as number)
+        })
+        expect(await a.call(['net', 'kb1rd', 'add'], [1, 2])).to.be.equal(3)
+      })
+      it('iterates generators across streams', async () => {
+        b.register(['net', 'kb1rd', 'count'], async function* () {
+          yield 'a'
+          yield 'b'
+        })
+        const values: unknown[] = []
+        for await (const v of a.generate(['net', 'kb1rd', 'count'], [])) {
+          values.push(v)
+        }
+        expect(values).to.be.deep.equal(['a', 'b'])
+      })
+      it('uses the JSON codec for values', async () => {
+        b.register(['net', 'kb1rd', 'double'], (src, wc, x) => {
+          return (x as bigint) * 2n
+        })
+        expect(await a.call(['net', 'kb1rd', 'double'], [2n])).to.be.equal(4n)
+      })
+      it('closes remote channel when stream ends', async () => {
+        a.close()
+        await delay()
+        expect(b.state).to.be.equal(RpcState.CLOSED)
+      })
+    })
+  })
+  it('drops messages that cannot be decoded', () => {
+    const [sa] = streamPair()
+    const c = createChannel(new StreamTransport(sa, sa, { framing: 'newline' }))
+    let called = 0
+    c.register(['net', 'kb1rd', 'hello'], () => {
+      called++
+    })
+    sa.emit(
+      'data',
+      text('not json\n{"to":["net","kb1rd","hello"],"args":[]}\n')
+    )
+    expect(called).to.be.equal(1)
+    expect(c.state).to.not.be.equal(RpcState.CLOSED)
+    c.close()
+  })
+  it('closes if stream is corrupt', () => {
+    const [sa] = streamPair()
+    const c = createChannel(new StreamTransport(sa, sa, { max_frame_size: 16 }))
+    sa.emit('data', bytes(0xff, 0xff, 0xff, 0xff))
+    expect(c.state).to.be.equal(RpcState.CLOSED)
+    expect(sa.ended).to.be.true
+  })
+  it('does not end output if `end_on_close` is false', () => {
+    const [input] = streamPair()
+    const [output] = streamPair()
+    const c = createChannel(
+      new StreamTransport(input, output, { end_on_close: false })
+    )
+    c.close()
+    expect(output.ended).to.be.false
+  })
+  it('sends MessagePack', async () => {
+    const [sa, sb] = streamPair()
+    const message_codec = new MsgpackMessageCodec()
+    const a = createChannel(new DuplexTransport(sa, { message_codec }))
+    const b = createChannel(new DuplexTransport(sb, { message_codec }))
+    await Promise.all([a.start(), b.start()])
+    b.register(['net', 'kb1rd', 'scale'], (src, wc, x, array) => {
+      return (array as Float64Array).map((v) => v * (x as number))
+    })
+    const result = await a.call(
+      ['net', 'kb1rd', 'scale'],
+      [2, new Float64Array([1.5, 2])]
+    )
+    expect(result).to.be.deep.equal(new Float64Array([3, 4]))
+    a.close()
+    b.close()
+  })
+  it('uses message codec', () => {
+    const [sa] = streamPair()
+    const encoded: unknown[] = []
+    const codec = new JsonMessageCodec()
+    const c = createChannel(
+      new DuplexTransport(sa, {
+        framing: 'newline',
+        message_codec: {
+          encode: (msg) => {
+            encoded.push(msg)
+            return codec.encode(msg)
+          },
+          decode: (data) => codec.decode(data)
+        }
+      })
+    )
+    c.send(['net', 'kb1rd', 'hello'])
+    expect(encoded.length).to.be.equal(1)
+    expect(sa.written[0]).to.be.deep.equal(
+      text('{"to":["net","kb1rd","hello"],"args":[],"return_type":"promise"}\n')
+    )
+    c.close()
+  })
+})
+
+describe('[stream.ts] ChildProcessTransport', () => {
+  it('talks over stdio and closes on exit', async () => {
+    const [stdin, child_stdin] = streamPair()
+    const [stdout, child_stdout] = streamPair()
+    const child = Object.assign(new EventEmitter(), { stdin, stdout })
+    const parent = createChannel(new ChildProcessTransport(child))
+    // What would run in the child process
+    const inner = createChannel(new StreamTransport(child_stdin, child_stdout))
+    inner.register(['net', 'kb1rd', 'hello'], () => 'hi')
+    await Promise.all([parent.start(), inner.start()])
+    expect(await parent.call(['net', 'kb1rd', 'hello'])).to.be.equal('hi')
+
+    child.emit('exit', 0)
+    expect(parent.state).to.be.equal(RpcState.CLOSED)
+    expect(stdin.ended).to.be.true
+    inner.close()
+  })
+  it('throws if stdio is not piped', () => {
+    const child = Object.assign(new EventEmitter(), {
+      stdin: null,
+      stdout: null
+    })
+    expect(() => new ChildProcessTransport(child)).to.throw(
+      'Child process must have piped stdin and stdout'
+    )
+  })
+})
+
+describe('[stream.ts] WebSocketTransport', () => {
+  let server: FakeWebSocketServer
+  let a: RpcChannel
+  let b: RpcChannel
+  beforeEach(async () => {
+    server = new FakeWebSocketServer()
+    const connected = new Promise<RpcChannel>((r) =>
+      server.once('connection', (socket: FakeWebSocket) =>
+        r(createChannel(new WebSocketTransport(socket)))
+      )
+    )
+    // The client sends before the socket is open
+    a = createChannel(new WebSocketTransport(server.connect()))
+    b = await connected
+    await Promise.all([a.start(), b.start()])
+  })
+  afterEach(() => {
+    a.close()
+    b.close()
+  })
+  it('calls across sockets', async () => {
+    b.register(['net', 'kb1rd', 'add'], (src, wc, x, y) => {
+      return (x as number) + (y as number)
+    })
+    expect(await a.call(['net', 'kb1rd', 'add'], [1, 2])).to.be.equal(3)
+  })
+  it('queues messages until open', async () => {
+    const socket = server.connect()
+    const c = createChannel(new WebSocketTransport(socket))
+    c.send(['net', 'kb1rd', 'hello'])
+    expect(socket.sent.length).to.be.equal(0)
+    await delay()
+    expect(socket.sent.length).to.be.equal(1)
+    c.close()
+  })
+  it('sets binary type', () => {
+    const socket = server.connect()
+    createChannel(new WebSocketTransport(socket)).close()
+    expect(socket.binaryType).to.be.equal('arraybuffer')
+  })
+  it('decodes binary messages', () => {
+    const socket = new FakeWebSocket()
+    const c = createChannel(new WebSocketTransport(socket))
+    let called = 0
+    c.register(['net', 'kb1rd', 'hello'], () => {
+      called++
+    })
+    const msg = text('{"to":["net","kb1rd","hello"],"args":[]}')
+    socket.emit('message', { data: msg })
+    socket.emit('message', { data: msg.buffer })
+    expect(called).to.be.equal(2)
+    c.close()
+  })
+  it('closes remote channel when socket closes', async () => {
+    a.close()
+    await delay()
+    expect(b.state).to.be.equal(RpcState.CLOSED)
+  })
+})
@@ -0,0 +1,235 @@
+import { expect } from 'chai'
+import {
+  RpcChannel,
+  RpcMessage,
+  RpcState,
+  Transport,
+  createChannel,
+  WorkerTransport,
+  MessagePortTransport,
+  MessagePortEndpoint,
+  WindowTransport,
+  NodePortTransport,
+  NodeMessagePortLike,
+  PostMessageEndpoint
+} from '../src/index'
+
+type Listener = (ev: {
+  data: unknown
+  origin?: string
+  source?: unknown
+}) => void
+
+/**
+ * A minimal stand-in for a `Worker` or `Window` that records what is posted
+ */
+class FakeEndpoint implements PostMessageEndpoint {
+  listeners: Listener[] = []
+  posted: [unknown, Transferable[]][] = []
+  postMessage(message: unknown, transfer: Transferable[]): void {
+    this.posted.push([message, transfer])
+  }
+  addEventListener(type: string, listener: Listener): void {
+    if (type === 'message') {
+      this.listeners.push(listener)
+    }
+  }
+  removeEventListener(type: string, listener: Listener): void {
+    this.listeners = this.listeners.filter((l) => l !== listener)
+  }
+  dispatch(data: unknown, origin?: string, source?: unknown): void {
+    this.listeners.forEach((l) => l({ data, origin, source }))
+  }
+}
+
+describe('[transport.ts] createChannel', () => {
+  let closed: boolean
+  let onmessage: ((msg: RpcMessage) => void) | undefined
+  let onclose: (() => void) | undefined
+  let sent: RpcMessage[]
+  let transport: Transport
+  beforeEach(() => {
+    closed = false
+    sent = []
+    transport = {
+      send: (msg) => sent.push(msg),
+      listen(m, c) {
+        onmessage = m
+        onclose = c
+      },
+      close: () => (closed = true)
+    }
+  })
+  it('sends and receives messages', async () => {
+    const c = createChannel(transport)
+    let args: unknown[] = []
+    c.register(['net', 'kb1rd', 'hello'], (src, wc, ...a) => {
+      args = a
+    })
+    await c.start()
+    c.send(['net', 'kb1rd', 'test'], [1])
+    expect(sent[0].to).to.be.deep.equal(['net', 'kb1rd', 'test'])
+    ;(onmessage as (msg: RpcMessage) => void)({
+      to: ['net', 'kb1rd', 'hello'],
+      args: ['hi']
+    })
+    expect(args).to.be.deep.equal(['hi'])
+    c.close()
+  })
+  it('closes transport when channel closes', () => {
+    const c = createChannel(transport)
+    c.close()
+    expect(closed).to.be.true
+  })
+  it('closes channel when transport closes', () => {
+    const c = createChannel(transport)
+    ;(onclose as () => void)()
+    expect(c.state).to.be.equal(RpcState.CLOSED)
+    // The transport is closed, so nothing can be sent
+    expect(sent.length).to.be.equal(0)
+  })
+})
+
+describe('[transport.ts] WorkerTransport', () => {
+  it('forwards messages and transferables', () => {
+    const worker = new FakeEndpoint()
+    const c = createChannel(new WorkerTransport(worker))
+    const buf = new ArrayBuffer(2)
+    c.send(['net', 'kb1rd', 'hello'], [buf])
+    expect(worker.posted.length).to.be.equal(1)
+    expect(worker.posted[0][1]).to.be.deep.equal([buf])
+
+    let called = false
+    c.register(['net', 'kb1rd', 'hello'], () => {
+      called = true
+    })
+    worker.dispatch({ to: ['net', 'kb1rd', 'hello'], args: [] })
+    expect(called).to.be.true
+    c.close()
+  })
+  it('removes listener on close', () => {
+    const worker = new FakeEndpoint()
+    const c = createChannel(new WorkerTransport(worker))
+    expect(worker.listeners.length).to.be.equal(1)
+    c.close()
+    expect(worker.listeners.length).to.be.equal(0)
+  })
+})
+
+describe('[transport.ts] WindowTransport', () => {
+  let target: FakeEndpoint
+  let self: FakeEndpoint
+  let c: RpcChannel
+  let called: boolean
+  const msg = { to: ['net', 'kb1rd', 'hello'], args: [] }
+  const sendTo = (target: FakeEndpoint) => ({
+    postMessage: (m: unknown, origin: string, xfer: Transferable[]) =>
+      target.postMessage([m, origin], xfer)
+  })
+  beforeEach(() => {
+    target = new FakeEndpoint()
+    self = new FakeEndpoint()
+    called = false
+  })
+  afterEach(() => c.close())
+  it('posts to origin', () => {
+    const win = sendTo(target)
+    c = createChannel(new WindowTransport(win, 'https://example.com', self))
+    c.send(['net', 'kb1rd', 'hello'])
+    expect((target.posted[0][0] as unknown[])[1]).to.be.equal(
+      'https://example.com'
+    )
+  })
+  it('only receives messages from target with origin', () => {
+    const win = sendTo(target)
+    c = createChannel(new WindowTransport(win, 'https://example.com', self))
+    c.register(['net', 'kb1rd', 'hello'], () => {
+      called = true
+    })
+    self.dispatch(msg, 'https://evil.com', win)
+    self.dispatch(msg, 'https://example.com', {})
+    expect(called).to.be.false
+    self.dispatch(msg, 'https://example.com', win)
+    expect(called).to.be.true
+  })
+  it('accepts any origin with `*`', () => {
+    const win = sendTo(target)
+    c = createChannel(new WindowTransport(win, '*', self))
+    c.register(['net', 'kb1rd', 'hello'], () => {
+      called = true
+    })
+    self.dispatch(msg, 'https://evil.com', win)
+    expect(called).to.be.true
+  })
+})
+
+describe('[transport.ts] MessagePortTransport', () => {
+  let a: RpcChannel
+  let b: RpcChannel
+  beforeEach(async () => {
+    const { port1, port2 } = new MessageChannel()
+    a = createChannel(new MessagePortTransport(port1 as MessagePortEndpoint))
+    b = createChannel(new MessagePortTransport(port2 as MessagePortEndpoint))
+    await Promise.all([a.start(), b.start()])
+  })
+  afterEach(() => {
+    a.close()
+    b.close()
+  })
+  it('calls across ports', async () => {
+    b.register(['net', 'kb1rd', 'add'], (src, wc, x, y) => {
+      return (x as number) + (y as number)
+    })
+    expect(await a.call(['net', 'kb1rd', 'add'], [1, 2])).to.be.equal(3)
+  })
+  it('closes remote channel when port closes', async () => {
+    const closed = new Promise((r) => b.once('close', r))
+    a.close()
+    await closed
+    expect(b.state).to.be.equal(RpcState.CLOSED)
+  })
+})
+
+describe('[transport.ts] NodePortTransport', () => {
+  let a: RpcChannel
+  let b: RpcChannel
+  beforeEach(async () => {
+    // In Node, these are `worker_threads` ports
+    const { port1, port2 } = new MessageChannel()
+    a = createChannel(
+      new NodePortTransport((port1 as unknown) as NodeMessagePortLike)
+    )
+    b = createChannel(
+      new NodePortTransport((port2 as unknown) as NodeMessagePortLike)
+    )
+    await Promise.all([a.start(), b.start()])
+  })
+  afterEach(() => {
+    a.close()
+    b.close()
+  })
+  it('calls across ports', async () => {
+    b.register(['net', 'kb1rd', 'add'], (src, wc, x, y) => {
+      return (x as number) + (y as number)
+    })
+    expect(await a.call(['net', 'kb1rd', 'add'], [1, 2])).to.be.equal(3)
+  })
+  it('closes remote channel when port closes', async () => {
+    const closed = new Promise((r) => b.once('close', r))
+    a.close()
+    await closed
+    expect(b.state).to.be.equal(RpcState.CLOSED)
+  })
+  it('closes channel when worker exits', () => {
+    const listeners: { [key: string]: () => void } = {}
+    const worker: NodeMessagePortLike = {
+      postMessage: () => undefined,
+      on: (event, listener) => (listeners[event] = listener),
+      off: (event) => delete listeners[event]
+    }
+    const c = createChannel(new NodePortTransport(worker))
+    listeners.exit()
+    expect(c.state).to.be.equal(RpcState.CLOSED)
+    expect(listeners).to.be.deep.equal({})
+  })
+})
@@ -0,0 +1,207 @@
+import { expect } from 'chai'
+import {
+  RpcChannel,
+  RpcCallContext,
+  createTypedClient,
+  implement,
+  AutoFunctionAccessController,
+  AccessDeniedError,
+  RequiresPermissions
+} from '../src/index'
+
+interface TestApi {
+  net: {
+    kb1rd: {
+      add(a: number, b: number): number
+      greet(name: string): Promise<string>
+      count(to: number): AsyncGenerator<number>
+    }
+  }
+}
+
+describe('[typed.ts] typed contracts', () => {
+  let a: RpcChannel
+  let b: RpcChannel
+  beforeEach(async () => {
+    a = new RpcChannel((msg) => b.receive(msg))
+    b = new RpcChannel((msg) => a.receive(msg))
+    await Promise.all([a.start(), b.start()])
+  })
+  afterEach(() => {
+    a.close()
+    b.close()
+  })
+
+  describe('implement', () => {
+    it('registers functions at their path', () => {
+      implement<TestApi>(b, {
+        net: {
+          kb1rd: {
+            add: (ctx, x, y) => x + y,
+            greet: async (ctx, name) => `Hello, ${name}`,
+            count: async function* (ctx, to) {
+              for (let i = 0; i < to; i++) {
+                yield i
+              }
+            }
+          }
+        }
+      })
+      expect(typeof b.reg.map.get(['net', 'kb1rd', 'add'])).to.be.equal(
+        'function'
+      )
+      expect(typeof b.reg.map.get(['net', 'kb1rd', 'count'])).to.be.equal(
+        'function'
+      )
+    })
+    it('keeps permissions of functions', async () => {
+      b.access_controller = new AutoFunctionAccessController()
+      const add = Object.assign(
+        (ctx: RpcCallContext, x: number, y: number) => x + y,
+        { [RequiresPermissions]: ['admin'] }
+      )
+      implement<TestApi>(b, {
+        net: {
+          kb1rd: {
+            add,
+            greet: async (ctx, name) => name,
+            count: async function* (ctx, to) {
+              yield to
+            }
+          }
+        }
+      })
+      const error = await a
+        .call(['net', 'kb1rd', 'add'], [1, 2])
+        .catch((e) => e)
+      expect(error).to.be.an.instanceOf(AccessDeniedError)
+    })
+    it('prepends prefix', () => {
+      implement<TestApi['net']>(
+        b,
+        {
+          kb1rd: {
+            add: (ctx, x, y) => x + y,
+            greet: async (ctx, name) => name,
+            count: async function* () {
+              yield 1
+            }
+          }
+        },
+        ['net']
+      )
+      expect(typeof b.reg.map.get(['net', 'kb1rd', 'add'])).to.be.equal(
+        'function'
+      )
+    })
+    it('passes call context and keeps `this`', async () => {
+      const impl = {
+        net: {
+          kb1rd: {
+            offset: 10,
+            add(ctx: RpcCallContext, x: number, y: number): number {
+              expect(ctx.channel).to.be.equal(b)
+              return this.offset + x + y
+            },
+            greet: async (ctx: RpcCallContext, name: string) => name,
+            count: async function* () {
+              yield 1
+            }
+          }
+        }
+      }
+      implement<TestApi>(b, impl)
+      expect(await a.call(['net', 'kb1rd', 'add'], [1, 2])).to.be.equal(13)
+    })
+  })
+
+  describe('createTypedClient', () => {
+    beforeEach(() => {
+      implement<TestApi>(b, {
+        net: {
+          kb1rd: {
+            add: (ctx, x, y) => x + y,
+            greet: async (ctx, name) => `Hello, ${name}`,
+            count: async function* (ctx, to) {
+              for (let i = 0; i < to; i++) {
+                yield i
+              }
+            }
+          }
+        }
+      })
+    })
+    it('calls promise endpoints', async () => {
+      const client = createTypedClient<TestApi>(a)
+      const sum: number = await client.net.kb1rd.add(1, 2)
+      expect(sum).to.be.equal(3)
+      const greeting: string = await client.net.kb1rd.greet('World!')
+      expect(greeting).to.be.equal('Hello, World!')
+    })
+    it('iterates generator endpoints', async () => {
+      const client = createTypedClient<TestApi>(a, {
+        net: { kb1rd: { count: true } }
+      })
+      const values: number[] = []
+      for await (const v of client.net.kb1rd.count(3)) {
+        values.push(v)
+      }
+      expect(values).to.be.deep.equal([0, 1, 2])
+    })
+    it('passes generator options', async () => {
+      interface EchoApi {
+        echo(): AsyncGenerator<number, string, number>
+      }
+      implement<EchoApi>(b, {
+        echo: async function* () {
+          const n = yield 1
+          return `got ${n}`
+        }
+      })
+      const client = createTypedClient<EchoApi>(a, {
+        echo: { bidirectional: true }
+      })
+      const gen = client.echo()
+      expect((await gen.next()).value).to.be.equal(1)
+      const result = await gen.next(5)
+      expect(result).to.be.deep.equal({ value: 'got 5', done: true })
+    })
+    it('prepends prefix', async () => {
+      const client = createTypedClient<TestApi['net']['kb1rd']>(a, {}, [
+        'net',
+        'kb1rd'
+      ])
+      expect(await client.add(3, 4)).to.be.equal(7)
+    })
+    it('returns undefined if accessor not string', () => {
+      const client = createTypedClient<TestApi>(a)
+      expect(
+        ((client as unknown) as { [key: string]: unknown })[
+          (Symbol() as unknown) as string
+        ]
+      ).to.be.undefined
+    })
+    it('rejects mismatched types at compile time', () => {
+      const client = createTypedClient<TestApi>(a)
+      const check = () => {
+        // @ts-expect-error
+        client.net.kb1rd.add('1', 2)
+        // @ts-expect-error
+        client.net.kb1rd.subtract(1, 2)
+        implement<TestApi>(b, {
+          net: {
+            kb1rd: {
+              // @ts-expect-error
+              add: () => 'hi',
+              greet: async () => 'hi',
+              count: async function* () {
+                yield 1
+              }
+            }
+          }
+        })
+      }
+      expect(check).to.be.a('function')
+    })
+  })
+})
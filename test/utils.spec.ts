@@ -1,5 +1,5 @@
 import { expect } from 'chai'
-import { isDefined, isUndef } from '../src/utils'
+import { isDefined, isUndef, randomId } from '../src/utils'
 
 describe('[utils.ts] Utils', () => {
   describe('isDefined', () => {
@@ -36,4 +36,10 @@ describe('[utils.ts] Utils', () => {
       expect(isUndef({})).to.be.false
     })
   })
+  describe('randomId', () => {
+    it('returns a different ID each time', () => {
+      expect(randomId()).to.be.a('string')
+      expect(randomId()).to.not.be.equal(randomId())
+    })
+  })
 })
\ No newline at end of file